@@ -1,7 +1,7 @@
 import { remote } from 'electron';
 import { on as processOn } from 'process';
 import ServiceLocator from './service-locator';
-import { Editor } from './editor';
+import { Editor, Event as EditorEvent } from './editor';
 import { Event as NoteManagerEvent } from './note-manager';
 import { NoteRenderer } from './note-renderer';
 import { Notebook, Note } from './note';
@@ -9,6 +9,10 @@ import ViewManager from './view-manager';
 import { Event as NotebookListViewEvent } from './views/notebook-list';
 import * as commonCommands from './commands/common';
 import { Event as ConfigEvent } from './config';
+import { Autosaver } from './autosave';
+import { RecoveryJournal, IJournalEntry } from './recovery-journal';
+import { IReferenceUpdate } from './reference-updater';
+import { sep } from 'path';
 
 const { app, Menu } = remote;
 
@@ -34,6 +38,10 @@ export class App {
     // OR is there a better solutions??
     private _openNotes: Map<Note, INoteStatus> = new Map<Note, INoteStatus>();
 
+    private _autosaver: Autosaver;
+    // unsaved contents kept for crash recovery
+    private _journal: RecoveryJournal;
+
     get activeNote(): Note {
         return this._activeNote;
     }
@@ -51,6 +59,7 @@ export class App {
         this._initNotebookHandlers();
         this._initNoteHandlers();
         this._initAppHandlers();
+        this._initAutosave();
 
         // init application menu
         this._initAppMenu();
@@ -70,7 +79,7 @@ export class App {
             let openNotes = this._openNotes;
             let containActiveNote = false;
 
-            for (let note of notebook.notes.values()) {
+            for (let note of notebook.allNotes) {
                 if (openNotes.has(note)) {
                     openNotes.delete(note);
                 }
@@ -89,22 +98,89 @@ export class App {
     private _initNoteHandlers() {
         let noteManager = ServiceLocator.noteManager;
 
+        // notes of the old library are dropped, none of them stays open or waits to be saved
+        noteManager.on(NoteManagerEvent.switch_library, () => {
+            this._autosaver.cancelAll();
+            this._openNotes = new Map();
+            this.execCommand('openOrphanNote');
+        });
+
         noteManager.on(NoteManagerEvent.reload, () => {
             let activeNote = this._activeNote;
             let noteStatus = this._openNotes.get(activeNote);
-            let notebook = activeNote.notebook ? noteManager.notebooks.get(activeNote.notebook.name) : null;
+            let notebook = activeNote.notebook ? noteManager.getNotebook(activeNote.notebook.path) : null;
 
             // TODO: remember the opened notes
             // reset opened notes
             this._openNotes = new Map();
 
-            if (notebook) {
-                this.openNote(notebook.notes.get(activeNote.name), noteStatus.view);
+            let note = notebook ? notebook.notes.get(activeNote.name) : null;
+            if (note) {
+                this.openNote(note, noteStatus.view);
             } else {
                 this.openNote(noteManager.orphanNote, NoteView.LivePreview);
             }
         });
 
+        // keep note indexes up to date while editing
+        ServiceLocator.editor.on(EditorEvent.change, (note: Note) => {
+            if (note !== noteManager.orphanNote) {
+                noteManager.scheduleIndexUpdate(note);
+            }
+        });
+
+        // note with unsaved changes is changed outside
+        noteManager.on(NoteManagerEvent.note_conflict, (note: Note, diskContent: string) => {
+            let response = ServiceLocator.dialog.messsageBox({
+                type: 'warning',
+                message: `Note: ${note.name} is changed outside`,
+                detail: 'Keep your unsaved changes, take the version on the disk or compare them?',
+                defaultId: 0,
+                buttons: ['Keep Mine', 'Take Disk Version', 'Open Diff']
+            });
+
+            switch (response) {
+                case 0:
+                    note.keepLocalChanges(diskContent);
+                    break;
+                case 1:
+                    noteManager.reloadNote(note, diskContent);
+                    break;
+                case 2:
+                    ViewManager.modal.open('note-diff', note, diskContent);
+                    break;
+            }
+        });
+
+        // let user confirm changes found in the note directory
+        noteManager.on(NoteManagerEvent.index_out_of_sync, (report) => {
+            ViewManager.modal.open('check-note-dir', report);
+        });
+
+        // let user preview references to the renamed or moved note/notebook before updating them
+        noteManager.on(NoteManagerEvent.references_found, (update: IReferenceUpdate) => {
+            ViewManager.modal.open('update-references', update);
+        });
+        noteManager.on(NoteManagerEvent.references_updated, (update: IReferenceUpdate, count: number) => {
+            ServiceLocator.alerter.info(`Updated references in ${count} notes, `
+                + 'undo it with _Notes > Undo Reference Update_');
+        });
+
+        // note is gone if it fails to be created
+        noteManager.on(NoteManagerEvent.create_note_failed, (note: Note) => {
+            if (note === this._activeNote && note !== noteManager.orphanNote) {
+                this._openNotes.delete(note);
+                this.execCommand('openOrphanNote');
+            }
+        });
+
+        // decrypted contents are dropped while locking, so encrypted notes must not stay open
+        noteManager.on(NoteManagerEvent.lock_notes, (notes: Note[]) => {
+            if (notes.indexOf(this._activeNote) !== -1) {
+                this.execCommand('openOrphanNote');
+            }
+        });
+
         noteManager.on(NoteManagerEvent.delete_note, (note: Note) => {
             if (this._openNotes.has(note)) {
                 this._openNotes.delete(note);
@@ -147,11 +223,21 @@ export class App {
 
                 if (response) { // cancel
                     event.returnValue = false;
+                    return;
                 }
-                return;
+                break;
             }
+
+            // closed normally, nothing to recover
+            this._journal.clearSync();
+            manager.scratchpad.writeSync();
         };
 
+        // encrypted notes are locked after being idle for a while
+        $(document).on('keydown mousedown mousemove wheel', () => {
+            ServiceLocator.keyRing.touch();
+        });
+
         let config = ServiceLocator.config;
         config.on(ConfigEvent.change, (name, newVal, oldVal) => {
             switch (name) {
@@ -159,10 +245,91 @@ export class App {
                 case 'editor.keybinding':
                     ServiceLocator.alerter.info('__Reboot is needed__');
                     break;
+                case 'library':
+                    ServiceLocator.alerter.info(`Switched to library: ${newVal}`);
+                    // pull notes of the library as it's done at launch
+                    if (config.git.remote) {
+                        ServiceLocator.noteManager.sync();
+                    }
+                    break;
             }
         });
     }
 
+    private _initAutosave() {
+        this._autosaver = new Autosaver();
+        this._journal = new RecoveryJournal(`${app.getPath('userData')}${sep}recovery`);
+    }
+
+    /**
+     * Offer unsaved contents left by last session, start journaling after that
+     */
+    private _recover() {
+        let manager = ServiceLocator.noteManager;
+        let journal = this._journal;
+
+        journal.load().then((entries: IJournalEntry[]) => {
+            // notes saved after they were journaled
+            entries = entries.filter((entry) => {
+                let note = this._findJournaledNote(entry);
+                if (note && !manager.isMissingNote(note)) {
+                    return note.content !== entry.content;
+                }
+                return entry.content.length !== 0;
+            });
+
+            if (entries.length) {
+                let response = ServiceLocator.dialog.messsageBox({
+                    type: 'question',
+                    message: `Recover unsaved changes of ${entries.length} notes from last session?`,
+                    detail: entries.map((entry) => entry.name || 'Untitled').join('\n'),
+                    defaultId: 0,
+                    buttons: ['Recover', 'Discard']
+                });
+
+                if (!response) {
+                    entries.forEach((entry) => this._recoverEntry(entry));
+                }
+            }
+
+            return journal.clear();
+        }).catch((e) => {
+            ServiceLocator.logger.error(e);
+        }).then(() => {
+            journal.start();
+        });
+    }
+
+    private _recoverEntry(entry: IJournalEntry) {
+        let manager = ServiceLocator.noteManager;
+        let note = this._findJournaledNote(entry);
+
+        if (note) {
+            note.content = entry.content;
+            manager.updateIndexes(note);
+            ViewManager.notebookList.noteChange(note);
+            return;
+        }
+
+        // note is gone, recover into a scratch of its own
+        manager.scratchpad.create(entry.content, false);
+    }
+
+    /**
+     * Note of the entry in the active library, notes of other libraries are never taken
+     * for the ones at the same path
+     */
+    private _findJournaledNote(entry: IJournalEntry): Note {
+        let manager = ServiceLocator.noteManager;
+        // entries journaled by older versions belong to the library opened at launch
+        if (entry.library && entry.library !== ServiceLocator.config.library) {
+            return null;
+        }
+
+        let notebook = entry.path.length ? manager.getNotebook(entry.path) : null;
+        return notebook ? notebook.notes.get(entry.name) : null;
+    }
+
     private _initAppMenu() {
         const template: Electron.MenuItemOptions[] = [
             {
@@ -188,6 +355,116 @@ export class App {
                     }
                 ]
             },
+            {
+                label: 'Notes',
+                submenu: [
+                    {
+                        label: 'New Scratch',
+                        accelerator: 'CmdOrCtrl+Shift+N',
+                        click: () => {
+                            this.execCommand('newScratch');
+                        }
+                    },
+                    {
+                        label: 'File Scratch as Note…',
+                        click: () => {
+                            this.execCommand('fileScratch');
+                        }
+                    },
+                    { type: 'separator' },
+                    {
+                        label: 'History',
+                        click: () => {
+                            this.execCommand('showNoteHistory');
+                        }
+                    },
+                    {
+                        label: 'Undo Reference Update',
+                        click: () => {
+                            this.execCommand('undoReferenceUpdate');
+                        }
+                    },
+                    {
+                        label: 'Find Unused Attachments',
+                        click: () => {
+                            this.execCommand('findUnusedAttachments');
+                        }
+                    },
+                    {
+                        label: 'Check Note Directory',
+                        click: () => {
+                            this.execCommand('checkNoteDirectory');
+                        }
+                    },
+                    {
+                        label: 'Import…',
+                        click: () => {
+                            this.execCommand('importNotes');
+                        }
+                    },
+                    { type: 'separator' },
+                    {
+                        label: 'Unlock Encrypted Notes…',
+                        click: () => {
+                            this.execCommand('unlockNotes');
+                        }
+                    },
+                    {
+                        label: 'Lock Encrypted Notes',
+                        click: () => {
+                            this.execCommand('lockNotes');
+                        }
+                    },
+                    { type: 'separator' },
+                    {
+                        label: 'Export as PDF…',
+                        click: () => {
+                            this.execCommand('exportPdf');
+                        }
+                    },
+                    {
+                        label: 'Print…',
+                        accelerator: 'CmdOrCtrl+P',
+                        click: () => {
+                            this.execCommand('printNote');
+                        }
+                    }
+                ]
+            },
+            {
+                label: 'Journal',
+                submenu: [
+                    {
+                        label: 'Today',
+                        accelerator: 'CmdOrCtrl+J',
+                        click: () => {
+                            this.execCommand('openTodayJournal');
+                        }
+                    },
+                    {
+                        label: 'Previous Day',
+                        accelerator: 'CmdOrCtrl+Alt+[',
+                        click: () => {
+                            this.execCommand('openPreviousJournal');
+                        }
+                    },
+                    {
+                        label: 'Next Day',
+                        accelerator: 'CmdOrCtrl+Alt+]',
+                        click: () => {
+                            this.execCommand('openNextJournal');
+                        }
+                    },
+                    { type: 'separator' },
+                    {
+                        label: 'Calendar',
+                        accelerator: 'CmdOrCtrl+Shift+J',
+                        click: () => {
+                            this.execCommand('showJournalCalendar');
+                        }
+                    }
+                ]
+            },
             {
                 label: 'Help',
                 submenu: [
@@ -223,6 +500,16 @@ export class App {
 
         manager.load();
         this.openNote(orphanNote, NoteView.LivePreview);
+        manager.scratchpad.start();
+
+        // journaled notes could only be found after notes are loaded
+        if (ServiceLocator.config.noteDir) {
+            manager.once(NoteManagerEvent.loaded, () => {
+                this._recover();
+            });
+        } else {
+            this._recover();
+        }
 
         // if git remote is set, sync notes
         if (ServiceLocator.config.git.remote) {
@@ -230,24 +517,41 @@ export class App {
         }
     }
 
-    openNote(note: Note, view?: NoteView) {
+    openNote(note: Note, view?: NoteView, line?: number) {
         let mainView = ViewManager.main;
         let openNotes = this._openNotes;
 
+        if (note.locked) {
+            ViewManager.modal.open('unlock-notes', () => {
+                this.openNote(note, view, line);
+            });
+            return;
+        }
+
         view = view ? view : (openNotes.has(note) ? openNotes.get(note).view : NoteView.ReadMode);
         switch (view) {
             case NoteView.ReadMode:
                 mainView.reader.openNote(note);
                 mainView.showReader();
+                if (line) {
+                    mainView.reader.revealLine(note, line);
+                }
                 break;
             case NoteView.EditMode:
                 mainView.showEditor();
                 ServiceLocator.editor.edit(note);
+                if (line) {
+                    ServiceLocator.editor.revealLine(line);
+                }
                 break;
             case NoteView.LivePreview:
                 mainView.reader.openNote(note, false);
                 mainView.splitView();
                 ServiceLocator.editor.edit(note);
+                if (line) {
+                    ServiceLocator.editor.revealLine(line);
+                    mainView.reader.revealLine(note, line, false);
+                }
                 break;
             default:
                 throw new Error(`Unknown note view: ${view}`);
@@ -263,6 +567,17 @@ export class App {
         }
 
         this._activeNote = note;
+
+        // open scratch is the orphan note, notebooks used lately are suggested to file scratches
+        // and the note is listed in recent notes
+        let scratchpad = ServiceLocator.noteManager.scratchpad;
+        if (note.notebook) {
+            scratchpad.useNotebook(note.notebook);
+            ViewManager.notebookList.addRecentNote(note);
+        } else {
+            scratchpad.activate(note);
+        }
+        ViewManager.header.setActiveNote(note);
     }
 
     execCommand(command: string, ...args) {
@@ -0,0 +1,178 @@
+import { sep as pathSep, extname, basename, isAbsolute, join } from 'path';
+import { readdir, exists, ensureDir, writeFile, copy, move } from 'fs-promise';
+import { Notebook } from './note';
+
+// attachments of the notes are kept in this directory of their notebook
+export const ASSETS_DIRNAME = 'assets';
+
+const IMAGE_EXT_REG = /\.(png|jpe?g|gif|svg|bmp|webp)$/i;
+// target of markdown links and images, e.g. ![alt](assets/a.png "title")
+const LINK_REG = /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const CONVERT_FILENAME_REG = /[/\\:?"<>|*\s()\[\]#%]/g;
+
+export function isImage(filename: string): boolean {
+    return IMAGE_EXT_REG.test(filename);
+}
+
+/**
+ * Whether the link is a path relative to the note, not an url or an anchor
+ */
+export function isRelativeLink(link: string): boolean {
+    return !/^[a-z][a-z0-9+.-]*:/i.test(link) && link[0] !== '#' && !isAbsolute(link);
+}
+
+/**
+ * File url of the relative link, resolved against the directory
+ */
+export function resolveLink(dirname: string, link: string): string {
+    try {
+        link = decodeURI(link);
+    } catch (e) { }
+
+    let pathname = join(dirname, link).split(pathSep).join('/');
+    // windows path starts with drive letter
+    return encodeURI(`file://${pathname[0] === '/' ? '' : '/'}${pathname}`).replace(/#/g, '%23');
+}
+
+export function getAssetsDirname(notebook: Notebook): string {
+    return `${notebook.pathname}${pathSep}${ASSETS_DIRNAME}`;
+}
+
+/**
+ * File names of the attachments linked in the content
+ */
+export function findAttachments(content: string): string[] {
+    let names = new Set<string>();
+    let prefix = `${ASSETS_DIRNAME}/`;
+    let match: RegExpExecArray;
+
+    LINK_REG.lastIndex = 0;
+    while ((match = LINK_REG.exec(content))) {
+        let link = match[1];
+        try {
+            link = decodeURI(link);
+        } catch (e) { }
+
+        if (link.startsWith('./')) {
+            link = link.substr(2);
+        }
+        if (link.startsWith(prefix) && link.indexOf('/', prefix.length) === -1) {
+            names.add(link.substr(prefix.length));
+        }
+    }
+    return Array.from(names);
+}
+
+/**
+ * Markdown linking the attachment, images are embedded
+ */
+export function attachmentMarkdown(filename: string): string {
+    let link = encodeURI(`${ASSETS_DIRNAME}/${filename}`);
+    let alt = basename(filename, extname(filename));
+    return isImage(filename) ? `![${alt}](${link})` : `[${filename}](${link})`;
+}
+
+/**
+ * Replace targets of markdown links and images, the target is kept if the replacer returns null
+ */
+export function replaceLinks(content: string, replacer: (link: string) => string): string {
+    return content.replace(LINK_REG, (markdown: string, link: string) => {
+        let newLink = replacer(link);
+        if (newLink === null || newLink === link) {
+            return markdown;
+        }
+
+        // the link text could contain the target as well
+        let index = markdown.indexOf(link, markdown.lastIndexOf(']('));
+        return markdown.substr(0, index) + newLink + markdown.substr(index + link.length);
+    });
+}
+
+/**
+ * Replace links of the attachment, used when the attachment gets another name
+ */
+export function replaceAttachment(content: string, oldName: string, newName: string): string {
+    let links = [`${ASSETS_DIRNAME}/${oldName}`, encodeURI(`${ASSETS_DIRNAME}/${oldName}`)];
+    let newLink = encodeURI(`${ASSETS_DIRNAME}/${newName}`);
+
+    return replaceLinks(content, (link: string) => {
+        let target = link.startsWith('./') ? link.substr(2) : link;
+        return links.indexOf(target) === -1 ? null : newLink;
+    });
+}
+
+/**
+ * File name in the assets directory which is not taken yet
+ */
+function uniqueFilename(dirname: string, filename: string): Promise<string> {
+    let ext = extname(filename);
+    let base = basename(filename, ext).replace(CONVERT_FILENAME_REG, '-') || 'attachment';
+
+    let tryName = (i: number): Promise<string> => {
+        let name = i > 1 ? `${base}-${i}${ext}` : `${base}${ext}`;
+        return exists(`${dirname}${pathSep}${name}`).then((occupied: boolean) => {
+            return occupied ? tryName(i + 1) : name;
+        });
+    };
+    return tryName(1);
+}
+
+/**
+ * Write data into assets directory of the notebook, resolve the file name
+ */
+export function saveAttachment(notebook: Notebook, filename: string, data: Buffer): Promise<string> {
+    let dirname = getAssetsDirname(notebook);
+
+    return ensureDir(dirname).then(() => {
+        return uniqueFilename(dirname, filename);
+    }).then((name: string) => {
+        return writeFile(`${dirname}${pathSep}${name}`, data).then(() => name);
+    });
+}
+
+/**
+ * Copy file into assets directory of the notebook, resolve the file name
+ */
+export function copyAttachment(notebook: Notebook, pathname: string): Promise<string> {
+    let dirname = getAssetsDirname(notebook);
+
+    return ensureDir(dirname).then(() => {
+        return uniqueFilename(dirname, basename(pathname));
+    }).then((name: string) => {
+        return copy(pathname, `${dirname}${pathSep}${name}`).then(() => name);
+    });
+}
+
+/**
+ * Move or copy attachment into another notebook, resolve the file name in the target notebook
+ */
+export function transferAttachment(from: Notebook, to: Notebook, filename: string, keepSource: boolean): Promise<string> {
+    let source = `${getAssetsDirname(from)}${pathSep}${filename}`;
+    let dirname = getAssetsDirname(to);
+
+    return exists(source).then((found: boolean) => {
+        if (!found) {
+            return null;
+        }
+
+        return ensureDir(dirname).then(() => {
+            return uniqueFilename(dirname, filename);
+        }).then((name: string) => {
+            let target = `${dirname}${pathSep}${name}`;
+            return (keepSource ? copy(source, target) : move(source, target)).then(() => name);
+        });
+    });
+}
+
+/**
+ * File names in assets directory of the notebook
+ */
+export function listAttachments(notebook: Notebook): Promise<string[]> {
+    let dirname = getAssetsDirname(notebook);
+
+    return exists(dirname).then((found: boolean) => {
+        return found ? readdir(dirname) : Promise.resolve([]);
+    }).then((names: string[]) => {
+        return names.filter((name) => name[0] !== '.');
+    });
+}
@@ -0,0 +1,75 @@
+import { Event as EditorEvent } from './editor';
+import { Note } from './note';
+import ServiceLocator from './service-locator';
+
+/**
+ * Save notes automatically according to the autosave config
+ */
+export class Autosaver {
+    // note -> pending save timer in idle mode
+    private _timers: Map<Note, NodeJS.Timer> = new Map();
+
+    constructor() {
+        let editor = ServiceLocator.editor;
+        let config = ServiceLocator.config.autosave;
+
+        editor.on(EditorEvent.change, (note: Note) => {
+            if (config.mode === 'idle') {
+                this._schedule(note, config.delay);
+            }
+        });
+
+        editor.on(EditorEvent.blur, (note: Note) => {
+            if (config.mode === 'focus') {
+                this.save(note);
+            }
+        });
+
+        // switching to other windows also changes the focus
+        window.addEventListener('blur', () => {
+            if (config.mode === 'focus') {
+                this.saveAll();
+            }
+        });
+    }
+
+    save(note: Note): Promise<void> {
+        clearTimeout(this._timers.get(note));
+        this._timers.delete(note);
+
+        // orphan note has no place to be saved to
+        if (!note || !note.notebook || !note.changed) {
+            return Promise.resolve();
+        }
+        // failure is alerted by the note, which stays unsaved and is saved again next time
+        return note.save().catch(() => {});
+    }
+
+    saveAll(): Promise<void> {
+        let promises: Promise<void>[] = [];
+        for (let notebook of ServiceLocator.noteManager.walkNotebooks()) {
+            for (let note of notebook.notes.values()) {
+                if (note.changed) {
+                    promises.push(this.save(note));
+                }
+            }
+        }
+        return Promise.all(promises).then(() => {});
+    }
+
+    /**
+     * Drop the pending saves, for notes closed without saving
+     */
+    cancelAll() {
+        this._timers.forEach((timer) => clearTimeout(timer));
+        this._timers.clear();
+    }
+
+    private _schedule(note: Note, delay: number) {
+        clearTimeout(this._timers.get(note));
+        this._timers.set(note, setTimeout(() => {
+            this._timers.delete(note);
+            this.save(note);
+        }, delay));
+    }
+}
@@ -1,6 +1,11 @@
 import { App, NoteView } from '../app';
 import ViewManager from '../view-manager';
 import ServiceLocator from '../service-locator';
+import { Note } from '../note';
+import { hasChanges } from '../index-reconciler';
+import { openJournal, openSiblingJournal } from '../journal';
+import { basename } from 'path';
+import * as moment from 'moment';
 
 export function readNote(app: App) {
     app.openNote(app.activeNote, NoteView.ReadMode);
@@ -21,6 +26,48 @@ export function openOrphanNote(app: App) {
     app.openNote(ServiceLocator.noteManager.orphanNote, NoteView.LivePreview);
 }
 
+export function newScratch(app: App) {
+    ServiceLocator.noteManager.scratchpad.create();
+    openOrphanNote(app);
+}
+
+export function openScratch(app: App, note: Note) {
+    ViewManager.notebookList.clearActiveNote();
+    app.openNote(note, NoteView.LivePreview);
+}
+
+export function closeScratch(app: App, note: Note) {
+    let scratchpad = ServiceLocator.noteManager.scratchpad;
+    if (note.content.trim()) {
+        let response = ServiceLocator.dialog.messsageBox({
+            type: 'warning',
+            message: `Close ${scratchpad.getTitle(note)}?`,
+            detail: 'Its content will be lost, file it as a note to keep it!',
+            defaultId: 1,
+            buttons: ['Close', 'Cancel']
+        });
+        if (response) { // cancel
+            return;
+        }
+    }
+
+    scratchpad.remove(note);
+    if (note === app.activeNote) {
+        openOrphanNote(app);
+    }
+    note.forget();
+}
+
+/**
+ * Save the open scratch, or the last used one, as a note
+ */
+export function fileScratch(app: App) {
+    if (app.activeNote.notebook) {
+        openOrphanNote(app);
+    }
+    ViewManager.modal.open('save-orphan-note');
+}
+
 export function saveNote(app: App) {
     let saveNote = app.activeNote;
     let orphanNote = ServiceLocator.noteManager.orphanNote;
@@ -31,7 +78,46 @@ export function saveNote(app: App) {
         return;
     }
 
-    saveNote.save();
+    // failure is alerted by the note
+    saveNote.save().catch(() => {});
+}
+
+export function switchLibrary(app: App, name: string) {
+    let manager = ServiceLocator.noteManager;
+    let changedNotes: Note[] = [];
+    for (let notebook of manager.walkNotebooks()) {
+        for (let note of notebook.notes.values()) {
+            if (note.changed) {
+                changedNotes.push(note);
+            }
+        }
+    }
+
+    if (changedNotes.length) {
+        let response = ServiceLocator.dialog.messsageBox({
+            message: `Switch to ${name} with unsaved notes?`,
+            detail: 'That will lose changes!',
+            defaultId: 1,
+            buttons: ['Switch', 'Cancel']
+        });
+        if (response) { // cancel
+            return;
+        }
+    }
+
+    try {
+        ServiceLocator.config.switchLibrary(name);
+    } catch (e) {
+        ServiceLocator.alerter.warn(e.message);
+        return;
+    }
+
+    // so they are neither autosaved nor journaled until the library is switched
+    changedNotes.forEach((note) => note.reload(note.savedContent));
+}
+
+export function manageLibraries() {
+    ViewManager.modal.open('libraries');
 }
 
 export function syncNotes() {
@@ -41,4 +127,152 @@ export function syncNotes() {
 
 export function openSettingPanel() {
     ViewManager.settings.openPanel();
-}
\ No newline at end of file
+}
+
+export function emptyTrash() {
+    let manager = ServiceLocator.noteManager;
+    if (!manager.trashItems.length) {
+        return;
+    }
+
+    let response = ServiceLocator.dialog.messsageBox({
+        type: 'warning',
+        message: 'Empty trash?',
+        detail: 'Notes in the trash will be deleted permanently!',
+        defaultId: 1,
+        buttons: ['Empty', 'Cancel']
+    });
+    if (response) { // cancel
+        return;
+    }
+
+    manager.emptyTrash();
+}
+
+export function checkNoteDirectory() {
+    let manager = ServiceLocator.noteManager;
+
+    manager.checkNoteDir().then((report) => {
+        if (!hasChanges(report) && !report.missingNotes.length && !report.conflicts.length) {
+            ServiceLocator.alerter.info('Note directory is consistent with the index');
+            return;
+        }
+        ViewManager.modal.open('check-note-dir', report);
+    }).catch((e) => {
+        ServiceLocator.alerter.fatal(`Cannot check note directory: ${e.message}`);
+    });
+}
+
+export function importNotes() {
+    ViewManager.modal.open('import-notes');
+}
+
+export function exportPdf(app: App) {
+    let note = app.activeNote;
+    ViewManager.modal.open('export-pdf', [note], note.name || 'Untitled', note.slug || 'untitled');
+}
+
+export function printNote(app: App) {
+    exportPdf(app);
+}
+
+export function unlockNotes() {
+    if (ServiceLocator.keyRing.unlocked) {
+        ServiceLocator.alerter.info('Encrypted notes are unlocked already');
+        return;
+    }
+    ViewManager.modal.open('unlock-notes');
+}
+
+export function lockNotes() {
+    ServiceLocator.noteManager.lockNotes().then(() => {
+        ServiceLocator.alerter.info('Encrypted notes are locked');
+    }).catch((e) => {
+        ServiceLocator.alerter.warn(e.message);
+    });
+}
+
+export function showNoteHistory(app: App) {
+    let note = app.activeNote;
+    if (note === ServiceLocator.noteManager.orphanNote) {
+        ServiceLocator.alerter.warn('Orphan note has no history, __save it first!__');
+        return;
+    }
+
+    ViewManager.modal.open('note-history', note);
+}
+
+export function findUnusedAttachments() {
+    let manager = ServiceLocator.noteManager;
+
+    manager.findUnusedAttachments().then((pathnames: string[]) => {
+        if (!pathnames.length) {
+            ServiceLocator.alerter.info('No unused attachments');
+            return;
+        }
+
+        let names = pathnames.slice(0, 10).map((pathname) => basename(pathname));
+        if (pathnames.length > names.length) {
+            names.push(`and ${pathnames.length - names.length} more`);
+        }
+
+        let response = ServiceLocator.dialog.messsageBox({
+            type: 'warning',
+            message: `Delete ${pathnames.length} unused attachments?`,
+            detail: `They are not linked by any note:\n${names.join('\n')}`,
+            defaultId: 1,
+            buttons: ['Delete', 'Cancel']
+        });
+        if (response) { // cancel
+            return;
+        }
+
+        return manager.removeAttachments(pathnames).then(() => {
+            ServiceLocator.alerter.info(`Deleted ${pathnames.length} unused attachments`);
+        });
+    }).catch((e) => {
+        ServiceLocator.alerter.fatal(`Cannot clean up attachments: ${e.message}`);
+    });
+}
+
+export function undoReferenceUpdate() {
+    let manager = ServiceLocator.noteManager;
+    if (!manager.canUndoReferenceUpdate) {
+        ServiceLocator.alerter.info('No reference update to undo');
+        return;
+    }
+
+    manager.undoReferenceUpdate().then((restored: number) => {
+        ServiceLocator.alerter.info(`Restored references in ${restored} notes`);
+    }).catch((e) => {
+        ServiceLocator.alerter.fatal(`Cannot undo reference update: ${e.message}`);
+    });
+}
+
+export function openTodayJournal() {
+    try {
+        openJournal(moment().startOf('day'));
+    } catch (e) {
+        ServiceLocator.alerter.warn(e.message);
+    }
+}
+
+export function openPreviousJournal() {
+    try {
+        openSiblingJournal(-1);
+    } catch (e) {
+        ServiceLocator.alerter.warn(e.message);
+    }
+}
+
+export function openNextJournal() {
+    try {
+        openSiblingJournal(1);
+    } catch (e) {
+        ServiceLocator.alerter.warn(e.message);
+    }
+}
+
+export function showJournalCalendar() {
+    ViewManager.modal.open('journal-calendar');
+}
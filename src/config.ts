@@ -1,6 +1,6 @@
 import { EventEmitter } from 'events';
 import { remote, app, ipcMain, ipcRenderer } from 'electron';
-import { sep } from 'path';
+import { sep, basename } from 'path';
 import { env } from 'process';
 import { readJsonSync } from 'fs-extra';
 import { writeJson } from 'fs-promise';
@@ -133,6 +133,146 @@ export class GitConfig extends SubConfig {
     }
 }
 
+// a note directory with its own git remote
+export interface ILibrary {
+    name: string;
+    noteDir: string;
+    remote?: string;
+    remoteAuth?: IGitRemoteAuth;
+}
+
+export type AutosaveMode = 'off' | 'idle' | 'focus';
+
+export class AutosaveConfig extends SubConfig {
+    constructor(parent, configs) {
+        super(parent, configs);
+        this._nodeName = 'autosave';
+    }
+
+    // save on idle, on focus change or never
+    get mode(): AutosaveMode {
+        return this._getConfig('mode', 'off');
+    }
+
+    set mode(mode: AutosaveMode) {
+        this._setConfig('mode', mode);
+    }
+
+    // milliseconds to wait after last change in idle mode
+    get delay(): number {
+        return this._getConfig('delay', 1000);
+    }
+
+    set delay(ms: number) {
+        this._setConfig('delay', ms);
+    }
+}
+
+export class TrashConfig extends SubConfig {
+    constructor(parent, configs) {
+        super(parent, configs);
+        this._nodeName = 'trash';
+    }
+
+    // days to keep deleted notes, 0 means forever
+    get purgeDays(): number {
+        return this._getConfig('purgeDays', 0);
+    }
+
+    set purgeDays(days: number) {
+        this._setConfig('purgeDays', days);
+    }
+}
+
+export class EncryptionConfig extends SubConfig {
+    constructor(parent, configs) {
+        super(parent, configs);
+        this._nodeName = 'encryption';
+    }
+
+    // minutes without activity before encrypted notes are locked, 0 means never
+    get idleMinutes(): number {
+        let minutes = this._configs.idleMinutes;
+        return typeof minutes === 'number' ? minutes : 15;
+    }
+
+    set idleMinutes(minutes: number) {
+        this._setConfig('idleMinutes', minutes);
+    }
+}
+
+export class JournalConfig extends SubConfig {
+    constructor(parent, configs) {
+        super(parent, configs);
+        this._nodeName = 'journal';
+    }
+
+    // path of the notebook keeping journal notes, e.g. Work/Journal
+    get notebook(): string {
+        return this._getConfig('notebook', 'Journal');
+    }
+
+    set notebook(path: string) {
+        this._setConfig('notebook', path);
+    }
+
+    // moment format of the note name
+    get namePattern(): string {
+        return this._getConfig('namePattern', 'YYYY-MM-DD');
+    }
+
+    set namePattern(pattern: string) {
+        this._setConfig('namePattern', pattern);
+    }
+
+    // template of new journal notes, empty to use the default template of the notebook
+    get template(): string {
+        return this._getConfig('template', '');
+    }
+
+    set template(name: string) {
+        this._setConfig('template', name);
+    }
+}
+
+export interface IPdfOptions {
+    // A3, A4, A5, Letter or Legal
+    pageSize: string;
+    // millimeters
+    margin: number;
+    // note and notebook name on the top of the pages
+    headerFooter: boolean;
+    pageNumbers: boolean;
+    // table of contents built from outline headers
+    toc: boolean;
+    breakBeforeH1: boolean;
+}
+
+export class PdfConfig extends SubConfig {
+    constructor(parent, configs) {
+        super(parent, configs);
+        this._nodeName = 'pdf';
+    }
+
+    // options used last time, kept as a whole so they're saved at once
+    get options(): IPdfOptions {
+        return Object.assign({
+            pageSize: 'A4',
+            margin: 15,
+            headerFooter: true,
+            pageNumbers: true,
+            toc: false,
+            breakBeforeH1: false,
+        }, this._getConfig('options', {}));
+    }
+
+    set options(options: IPdfOptions) {
+        this._setConfig('options', options, (oldVal: IPdfOptions, newVal: IPdfOptions): number => {
+            return JSON.stringify(oldVal) === JSON.stringify(newVal) ? 0 : 1;
+        });
+    }
+}
+
 const IpcEvent = {
     sync: 'config:sync',
 };
@@ -143,11 +283,19 @@ export const Event = {
 };
 
 
+// libraries listed in the switcher as recently used
+const RECENT_LIBRARIES = 5;
+
 export class Config extends BaseConfig {
     private _filename: string;
 
     private _editor: EditorConfig;
     private _git: GitConfig;
+    private _trash: TrashConfig;
+    private _encryption: EncryptionConfig;
+    private _autosave: AutosaveConfig;
+    private _journal: JournalConfig;
+    private _pdf: PdfConfig;
 
     get editor(): EditorConfig {
         return this._editor;
@@ -157,6 +305,26 @@ export class Config extends BaseConfig {
         return this._git;
     }
 
+    get trash(): TrashConfig {
+        return this._trash;
+    }
+
+    get encryption(): EncryptionConfig {
+        return this._encryption;
+    }
+
+    get autosave(): AutosaveConfig {
+        return this._autosave;
+    }
+
+    get journal(): JournalConfig {
+        return this._journal;
+    }
+
+    get pdf(): PdfConfig {
+        return this._pdf;
+    }
+
     get noteDir(): string {
         return this._getConfig('noteDir');
     }
@@ -165,6 +333,92 @@ export class Config extends BaseConfig {
         this._setConfig('noteDir', dirname);
     }
 
+    /**
+     * Note directory, git remote and auth in the top level belong to the active library,
+     * they're kept in its entry when saved
+     */
+    get libraries(): ILibrary[] {
+        return this._configs.libraries.map((library: ILibrary) => Object.assign({}, library));
+    }
+
+    // name of the active library
+    get library(): string {
+        return this._getConfig('library');
+    }
+
+    // names of the libraries used lately, the latest one goes first
+    get recentLibraries(): string[] {
+        return this._getConfig('recentLibraries', []);
+    }
+
+    addLibrary(library: ILibrary) {
+        if (!library.name) {
+            throw new Error('Empty library name');
+        } else if (!library.noteDir) {
+            throw new Error('No note directory is selected');
+        }
+        this._checkLibrary(library);
+
+        let oldVal = this.libraries;
+        this._configs.libraries.push(Object.assign({}, library));
+        this.save('libraries', this.libraries, oldVal);
+    }
+
+    renameLibrary(name: string, newName: string) {
+        let library = this._findLibrary(name);
+        if (!newName) {
+            throw new Error('Empty library name');
+        } else if (newName === name) {
+            return;
+        }
+        this._checkLibrary({ name: newName, noteDir: '' });
+
+        let oldVal = this.libraries;
+        library.name = newName;
+        if (this._configs.library === name) {
+            this._configs.library = newName;
+        }
+        this._configs.recentLibraries = this.recentLibraries.map((item) => item === name ? newName : item);
+        this.save('libraries', this.libraries, oldVal);
+    }
+
+    /**
+     * The note directory is left as it is
+     */
+    removeLibrary(name: string) {
+        let library = this._findLibrary(name);
+        if (name === this.library) {
+            throw new Error(`Library: ${name} is in use, switch to another library first`);
+        }
+
+        let oldVal = this.libraries;
+        this._configs.libraries = this._configs.libraries.filter((item: ILibrary) => item !== library);
+        this._configs.recentLibraries = this.recentLibraries.filter((item) => item !== name);
+        this.save('libraries', this.libraries, oldVal);
+    }
+
+    /**
+     * Make the library active, unlike setting note directory notes are not moved
+     */
+    switchLibrary(name: string) {
+        let oldName = this.library;
+        if (name === oldName) {
+            return;
+        }
+
+        let library = this._findLibrary(name);
+        this._syncLibrary();
+
+        let configs = this._configs;
+        configs.library = name;
+        configs.noteDir = library.noteDir;
+        configs.git.remote = library.remote || '';
+        configs.git['remote-auth'] = library.remoteAuth || null;
+        configs.recentLibraries = [name].concat(this.recentLibraries.filter((item) => item !== name))
+            .slice(0, RECENT_LIBRARIES);
+        this.save('library', name, oldName);
+    }
+
     get debug(): boolean {
         return this._getConfig('debug', false);
     }
@@ -214,10 +468,69 @@ export class Config extends BaseConfig {
         configs.git = configs.git || {};
         this._git = new GitConfig(this, configs.git);
 
+        configs.trash = configs.trash || {};
+        this._trash = new TrashConfig(this, configs.trash);
+
+        configs.encryption = configs.encryption || {};
+        this._encryption = new EncryptionConfig(this, configs.encryption);
+
+        configs.autosave = configs.autosave || {};
+        this._autosave = new AutosaveConfig(this, configs.autosave);
+
+        configs.journal = configs.journal || {};
+        this._journal = new JournalConfig(this, configs.journal);
+
+        configs.pdf = configs.pdf || {};
+        this._pdf = new PdfConfig(this, configs.pdf);
+
+        configs.libraries = configs.libraries || [];
         this._configs = configs;
+        this._syncLibrary();
+    }
+
+    private _findLibrary(name: string): ILibrary {
+        let library = (this._configs.libraries as ILibrary[]).find((item) => item.name === name);
+        if (!library) {
+            throw new Error(`Library: ${name} does not exist`);
+        }
+        return library;
+    }
+
+    private _checkLibrary(library: ILibrary) {
+        for (let item of this._configs.libraries as ILibrary[]) {
+            if (item.name === library.name) {
+                throw new Error(`Library: ${library.name} already exists`);
+            } else if (library.noteDir && item.noteDir === library.noteDir) {
+                throw new Error(`${library.noteDir} is the note directory of library: ${item.name}`);
+            }
+        }
+    }
+
+    /**
+     * Keep settings of the active library in its entry, the first library is made of the note directory
+     * set before libraries or set the first time
+     */
+    private _syncLibrary() {
+        let configs = this._configs;
+        if (!configs.noteDir) {
+            return;
+        }
+
+        let library = (configs.libraries as ILibrary[]).find((item) => item.name === configs.library);
+        if (!library) {
+            library = { name: basename(configs.noteDir) || 'Notes', noteDir: '' };
+            configs.libraries.push(library);
+            configs.library = library.name;
+            configs.recentLibraries = [library.name];
+        }
+
+        library.noteDir = configs.noteDir;
+        library.remote = configs.git.remote || '';
+        library.remoteAuth = configs.git['remote-auth'] || null;
     }
 
     save(name: string, newVal: any, oldVal: any) {
+        this._syncLibrary();
         writeJson(this._filename, this._configs).then(() => {
             ipcRenderer.send(IpcEvent.sync, this._configs, name, newVal, oldVal);
             this.emit(Event.change, name, newVal, oldVal);
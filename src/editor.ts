@@ -1,17 +1,31 @@
 import { App } from './app';
 import { EventEmitter } from 'events';
 import { EditorView } from './views/editor';
-import { Note } from './note';
+import { Note, Notebook } from './note';
 import ViewManager from './view-manager';
 import * as editorCommands from './commands/editor';
 import { noop, throttle } from './utils';
 import ServiceLocator from './service-locator';
+import { saveAttachment, copyAttachment, attachmentMarkdown } from './attachments';
 
 const TEXT_MODE = 'markdown';
 
+// file of electron, dropped files have their path
+type ElectronFile = File & { path: string };
+
+function readBlob(blob: Blob): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        let reader = new FileReader();
+        reader.onload = () => resolve(Buffer.from(reader.result as ArrayBuffer));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsArrayBuffer(blob);
+    });
+}
+
 export const Event = {
     change: 'editor:change',
     changeLineNumber: 'editor:change-line-number',
+    blur: 'editor:blur',
 };
 
 export class Editor extends EventEmitter {
@@ -50,12 +64,90 @@ export class Editor extends EventEmitter {
             this.emit(Event.change, this._editingNote);
         }, 100, this));
 
+        this.kernel.onDidBlurEditor(() => {
+            this.emit(Event.blur, this._editingNote);
+        });
+
         this.kernel.onDidChangeCursorSelection(throttle((e: monaco.editor.ICursorSelectionChangedEvent) => {
             this.emit(Event.changeLineNumber, this._editingNote, e.selection.startLineNumber);
         }, 100, this));
 
         // set keybindings
         this._setKeyBindings();
+
+        this._initAttachmentHandlers();
+    }
+
+    /**
+     * Pasted images and dropped files are saved as attachments and linked at the cursor
+     */
+    private _initAttachmentHandlers() {
+        let dom = ViewManager.main.editor.dom;
+
+        dom.addEventListener('paste', (event: ClipboardEvent) => {
+            let files = Array.from(event.clipboardData.items)
+                .filter((item) => item.kind === 'file' && item.type.startsWith('image/'))
+                .map((item) => item.getAsFile());
+            if (!files.length) {
+                return;
+            }
+
+            event.preventDefault();
+            event.stopPropagation();
+            this._attach(files, (notebook, file: File) => {
+                return readBlob(file).then((data: Buffer) => {
+                    let ext = file.type.split('/')[1] || 'png';
+                    return saveAttachment(notebook, `pasted-${Date.now()}.${ext}`, data);
+                });
+            });
+        }, true);
+
+        dom.addEventListener('dragover', (event: DragEvent) => {
+            if (event.dataTransfer.types.indexOf('Files') !== -1) {
+                event.preventDefault();
+            }
+        }, true);
+
+        dom.addEventListener('drop', (event: DragEvent) => {
+            let files = Array.from(event.dataTransfer.files);
+            if (!files.length) {
+                return;
+            }
+
+            event.preventDefault();
+            event.stopPropagation();
+            this._attach(files, (notebook, file: ElectronFile) => copyAttachment(notebook, file.path));
+        }, true);
+    }
+
+    private _attach(files: File[], save: (notebook: Notebook, file: File) => Promise<string>) {
+        let note = this._editingNote;
+        if (!note || !note.notebook) {
+            ServiceLocator.alerter.warn('Attachments could only be added to saved notes, __save the note first!__');
+            return;
+        }
+        if (note.isEncrypted) {
+            ServiceLocator.alerter.warn('Attachments could not be added to encrypted notes, they would be stored unencrypted!');
+            return;
+        }
+
+        Promise.all(files.map((file) => save(note.notebook, file))).then((names: string[]) => {
+            // the editor may be switched to another note while saving
+            if (note !== this._editingNote) {
+                return;
+            }
+
+            this.kernel.executeEdits('attachment', [{
+                identifier: null,
+                range: this.kernel.getSelection(),
+                text: names.map(attachmentMarkdown).join('\n'),
+                forceMoveMarkers: true
+            }]);
+            this.kernel.focus();
+        }).catch((e) => {
+            ServiceLocator.logger.error(e);
+            ServiceLocator.alerter.warn(`Cannot add attachment: ${e.message}`);
+        });
     }
 
     private _setKeyBindings() {
@@ -148,6 +240,23 @@ export class Editor extends EventEmitter {
         // foucs editor
         this.focus();
 
+        // e.g. cursor marker of the template the note is created from
+        if (note.cursorOffset !== -1) {
+            let position = model.getPositionAt(note.cursorOffset);
+            note.cursorOffset = -1;
+
+            this.kernel.setPosition(position);
+            this.kernel.revealPositionInCenter(position);
+        }
+
+        return this;
+    }
+
+    revealLine(lineNumber: number): Editor {
+        let kernel = this.kernel;
+
+        kernel.setPosition(new Monaco.Position(lineNumber, 1));
+        kernel.revealLineInCenter(lineNumber);
         return this;
     }
 
@@ -0,0 +1,270 @@
+import { EventEmitter } from 'events';
+import { randomBytes, pbkdf2, pbkdf2Sync, createCipheriv, createDecipheriv } from 'crypto';
+import ServiceLocator from './service-locator';
+
+const BEGIN_LINE = '-----BEGIN HUSKY ENCRYPTED NOTE-----';
+const END_LINE = '-----END HUSKY ENCRYPTED NOTE-----';
+const LINE_LENGTH = 76;
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+// node of electron has no scrypt yet
+const KDF = 'pbkdf2-sha512';
+const PBKDF2_DIGEST = 'sha512';
+const PBKDF2_ITERATIONS = 200000;
+
+// encrypted into the key check, a wrong passphrase cannot decrypt it
+const KEY_CHECK = 'husky-key-check';
+const IDLE_CHECK_INTERVAL = 10 * 1000;
+
+// passphrase settings kept in the note index
+export interface IKeyParams {
+    kdf: string;
+    iterations: number;
+    // base64
+    salt: string;
+    check: ISealed;
+}
+
+// base64 encoded output of the cipher
+interface ISealed {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+interface IArmor extends ISealed {
+    kdf: string;
+    iterations: number;
+    salt: string;
+}
+
+export const Event = {
+    // no activity for the idle timeout while unlocked
+    idle: 'key-ring:idle',
+};
+
+/**
+ * Whether the content of a note file is encrypted
+ */
+export function isEncryptedContent(content: string): boolean {
+    return content.startsWith(BEGIN_LINE);
+}
+
+function deriveKey(passphrase: string, salt: string, iterations: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        pbkdf2(passphrase, Buffer.from(salt, 'base64'), iterations, KEY_LENGTH, PBKDF2_DIGEST, (e, key: Buffer) => {
+            if (e) {
+                reject(e);
+            } else {
+                resolve(key);
+            }
+        });
+    });
+}
+
+function seal(key: Buffer, text: string): ISealed {
+    let iv = randomBytes(IV_LENGTH);
+    let cipher = createCipheriv(CIPHER, key, iv);
+    let data = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+
+    return {
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+    };
+}
+
+/**
+ * Throw if the key is wrong or the data is tampered
+ */
+function unseal(key: Buffer, sealed: ISealed): string {
+    let decipher = createDecipheriv(CIPHER, key, Buffer.from(sealed.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+
+    let data = Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]);
+    return data.toString('utf8');
+}
+
+/**
+ * Text form of the encrypted note, parameters are kept as headers so the note could be decrypted
+ * by the passphrase alone
+ */
+function armor(item: IArmor): string {
+    let lines = [
+        BEGIN_LINE,
+        `kdf: ${item.kdf}`,
+        `iterations: ${item.iterations}`,
+        `salt: ${item.salt}`,
+        `iv: ${item.iv}`,
+        `tag: ${item.tag}`,
+        '',
+    ];
+    for (let i = 0; i < item.data.length; i += LINE_LENGTH) {
+        lines.push(item.data.substr(i, LINE_LENGTH));
+    }
+    lines.push(END_LINE, '');
+
+    return lines.join('\n');
+}
+
+function dearmor(content: string): IArmor {
+    let lines = content.split(/\r?\n/).map((line) => line.trim());
+    let end = lines.indexOf(END_LINE);
+    let blank = lines.indexOf('');
+    if (lines[0] !== BEGIN_LINE || end === -1 || blank === -1 || blank > end) {
+        throw new Error('Malformed encrypted note');
+    }
+
+    let headers: { [name: string]: string } = {};
+    lines.slice(1, blank).forEach((line) => {
+        let index = line.indexOf(':');
+        headers[line.substr(0, index).trim()] = line.substr(index + 1).trim();
+    });
+    if (headers.kdf !== KDF) {
+        throw new Error(`Unknown key derivation: ${headers.kdf}`);
+    }
+
+    return {
+        kdf: headers.kdf,
+        iterations: parseInt(headers.iterations, 10),
+        salt: headers.salt,
+        iv: headers.iv,
+        tag: headers.tag,
+        data: lines.slice(blank + 1, end).join(''),
+    };
+}
+
+/**
+ * Keys derived from the passphrase while encrypted notes are unlocked
+ */
+export class KeyRing extends EventEmitter {
+    private _params: IKeyParams = null;
+    private _passphrase: string = null;
+    // salt -> key, notes encrypted elsewhere could have their own salts
+    private _keys = new Map<string, Buffer>();
+    private _lastActive: number = 0;
+    private _idleTimer: NodeJS.Timer = null;
+
+    get params(): IKeyParams {
+        return this._params;
+    }
+
+    /**
+     * Params are loaded from the note index, keys of other params are forgotten
+     */
+    set params(params: IKeyParams) {
+        params = params || null;
+        if (JSON.stringify(params) === JSON.stringify(this._params)) {
+            return;
+        }
+
+        this._params = params;
+        this.lock();
+    }
+
+    get hasPassphrase(): boolean {
+        return this._params !== null;
+    }
+
+    get unlocked(): boolean {
+        return this._passphrase !== null;
+    }
+
+    /**
+     * Derive the key from the passphrase, the passphrase is set if there's none yet
+     */
+    unlock(passphrase: string): Promise<void> {
+        if (!passphrase) {
+            return Promise.reject(new Error('Empty passphrase'));
+        }
+
+        let params = this._params;
+        if (!params) {
+            let salt = randomBytes(SALT_LENGTH).toString('base64');
+            return deriveKey(passphrase, salt, PBKDF2_ITERATIONS).then((key: Buffer) => {
+                this._params = { kdf: KDF, iterations: PBKDF2_ITERATIONS, salt, check: seal(key, KEY_CHECK) };
+                this._setKey(passphrase, salt, key);
+            });
+        }
+
+        return deriveKey(passphrase, params.salt, params.iterations).then((key: Buffer) => {
+            let check: string;
+            try {
+                check = unseal(key, params.check);
+            } catch (e) {
+                check = null;
+            }
+            if (check !== KEY_CHECK) {
+                throw new Error('Wrong passphrase');
+            }
+
+            this._setKey(passphrase, params.salt, key);
+        });
+    }
+
+    lock() {
+        this._passphrase = null;
+        this._keys.clear();
+        clearInterval(this._idleTimer);
+        this._idleTimer = null;
+    }
+
+    /**
+     * Record user activity, which postpones locking
+     */
+    touch() {
+        this._lastActive = Date.now();
+    }
+
+    encrypt(text: string): string {
+        this._checkUnlocked();
+
+        let params = this._params;
+        let sealed = seal(this._keys.get(params.salt), text);
+        return armor(Object.assign({ kdf: params.kdf, iterations: params.iterations, salt: params.salt }, sealed));
+    }
+
+    decrypt(content: string): string {
+        this._checkUnlocked();
+
+        let item = dearmor(content);
+        let key = this._keys.get(item.salt);
+        if (!key) {
+            // the key is derived synchronously, a crafted iteration count would freeze the app
+            if (item.kdf !== this._params.kdf || item.iterations !== this._params.iterations) {
+                throw new Error('Cannot decrypt note, its key parameters differ from the note index');
+            }
+            key = pbkdf2Sync(this._passphrase, Buffer.from(item.salt, 'base64'), item.iterations, KEY_LENGTH, PBKDF2_DIGEST);
+            this._keys.set(item.salt, key);
+        }
+
+        try {
+            return unseal(key, item);
+        } catch (e) {
+            throw new Error('Cannot decrypt note, it is encrypted with another passphrase or damaged');
+        }
+    }
+
+    private _setKey(passphrase: string, salt: string, key: Buffer) {
+        this._passphrase = passphrase;
+        this._keys.set(salt, key);
+        this.touch();
+
+        clearInterval(this._idleTimer);
+        this._idleTimer = setInterval(() => {
+            let minutes = ServiceLocator.config.encryption.idleMinutes;
+            if (minutes > 0 && Date.now() - this._lastActive > minutes * 60 * 1000) {
+                this.emit(Event.idle);
+            }
+        }, IDLE_CHECK_INTERVAL);
+    }
+
+    private _checkUnlocked() {
+        if (!this.unlocked) {
+            throw new Error('Encrypted notes are locked');
+        }
+    }
+}
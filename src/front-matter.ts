@@ -0,0 +1,110 @@
+import { safeLoad, safeDump } from 'js-yaml';
+import * as moment from 'moment';
+
+// yaml block between two `---` lines at the very beginning of the note
+const FRONT_MATTER_REG = /^---[ \t]*\r?\n([\s\S]*?)\r?\n?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+const LIST_FIELDS = ['tags', 'aliases'];
+const DATE_FIELDS = ['created', 'updated'];
+
+export interface INoteMetadata {
+    title?: string;
+    tags?: string[];
+    // ISO 8601 date strings
+    created?: string;
+    updated?: string;
+    aliases?: string[];
+    [name: string]: any;
+}
+
+export interface IFrontMatter {
+    metadata: INoteMetadata;
+    // content without front-matter block
+    body: string;
+    // line count of front-matter block
+    lines: number;
+}
+
+export function formatDate(date?: Date | string): string {
+    return moment(date).format();
+}
+
+function isPlainObject(raw: any): boolean {
+    return !!raw && typeof raw === 'object' && !Array.isArray(raw) && !(raw instanceof Date);
+}
+
+function normalize(raw: any): INoteMetadata {
+    let metadata: INoteMetadata = {};
+
+    for (let name in raw) {
+        let value = raw[name];
+        if (value === null || typeof value === 'undefined') {
+            continue;
+        }
+
+        if (LIST_FIELDS.indexOf(name) !== -1) {
+            // accept both `tags: [a, b]` and `tags: a, b`
+            let items: any[] = Array.isArray(value) ? value : String(value).split(',');
+            value = items.map((item) => String(item).trim()).filter((item) => item.length > 0);
+        } else if (DATE_FIELDS.indexOf(name) !== -1) {
+            value = formatDate(value);
+        } else if (name === 'title') {
+            value = String(value);
+        } else if (value instanceof Date) {
+            value = formatDate(value);
+        }
+
+        metadata[name] = value;
+    }
+    return metadata;
+}
+
+export function parseFrontMatter(content: string): IFrontMatter {
+    let matches = FRONT_MATTER_REG.exec(content);
+    if (!matches) {
+        return { metadata: {}, body: content, lines: 0 };
+    }
+
+    let raw: any;
+    try {
+        raw = safeLoad(matches[1]);
+    } catch (e) {
+        // not a valid yaml block, treat it as normal content
+        return { metadata: {}, body: content, lines: 0 };
+    }
+    // e.g. a paragraph between two horizontal rules is loaded as a string
+    if (!isPlainObject(raw)) {
+        return { metadata: {}, body: content, lines: 0 };
+    }
+
+    let metadata = normalize(raw);
+
+    let block = matches[0];
+    return {
+        metadata,
+        body: content.substr(block.length),
+        lines: block.split('\n').length - (block.endsWith('\n') ? 1 : 0),
+    };
+}
+
+export function stringifyFrontMatter(metadata: INoteMetadata): string {
+    let names = Object.keys(metadata).filter((name) => typeof metadata[name] !== 'undefined');
+    if (!names.length) {
+        return '';
+    }
+
+    let values = {};
+    names.forEach((name) => {
+        values[name] = metadata[name];
+    });
+
+    return `---\n${safeDump(values, { flowLevel: 1 })}---\n`;
+}
+
+/**
+ * Replace front-matter block of the content with metadata
+ */
+export function setFrontMatter(content: string, metadata: INoteMetadata): string {
+    let body = parseFrontMatter(content).body;
+    return `${stringifyFrontMatter(metadata)}${body}`;
+}
@@ -26,6 +26,14 @@ export const Event = {
     setRemoteFailed: 'git:set-remote-failed',
 }
 
+export interface IFileCommit {
+    sha: string;
+    // ISO 8601 date string
+    date: string;
+    author: string;
+    message: string;
+}
+
 function clone(url, path, options): Promise<any> {
     let tmpdir = `${app.getPath('temp')}${sep}_husk_notes`;
     return Clone(url, tmpdir, options).then(() => {
@@ -51,6 +59,16 @@ export class Git extends EventEmitter {
         super();
     }
 
+    /**
+     * Forget the repository, it's opened in the note directory of the active library next time
+     */
+    reset() {
+        logger.info('reset method called');
+
+        this._repository = null;
+        this._remote = null;
+    }
+
     hasRepository() {
         return existsSync(`${ServiceLocator.config.noteDir}${sep}.git`);
     }
@@ -198,6 +216,105 @@ export class Git extends EventEmitter {
         });
     }
 
+    /**
+     * Commits changing the file, the latest one goes first.
+     * Pathname is relative to the repository, separated by '/'.
+     * Like `git log <path>`, a merge keeping the file of one parent is not a change,
+     * only that parent is followed, and the walk ends where the file does not exist
+     */
+    fileHistory(pathname: string): Promise<IFileCommit[]> {
+        logger.info('fileHistory method called');
+
+        // do not create repository just for reading
+        if (!this.hasRepository()) {
+            return Promise.resolve([]);
+        }
+
+        // commit sha -> sha of the file in the commit, null if it does not exist
+        let blobShas = new Map<string, Promise<string>>();
+        let getBlobSha = (commit): Promise<string> => {
+            let sha = commit.sha();
+            if (!blobShas.has(sha)) {
+                blobShas.set(sha, commit.getEntry(pathname).then((entry) => entry.sha(), () => null));
+            }
+            return blobShas.get(sha);
+        };
+
+        let changes: any[] = [];
+        let visited = new Set<string>();
+        // commits to visit, the latest one goes first
+        let pending: any[] = [];
+
+        let visit = (): Promise<void> => {
+            let commit = pending.shift();
+            if (!commit) {
+                return Promise.resolve();
+            }
+
+            return Promise.all([getBlobSha(commit), commit.getParents(commit.parentcount())]).then(([blobSha, parents]: [string, any[]]) => {
+                return Promise.all(parents.map(getBlobSha)).then((parentShas: string[]) => {
+                    let same = parents.filter((parent, i) => parentShas[i] === blobSha);
+                    if (!same.length) {
+                        // the file differs from the one in every parent
+                        changes.push(commit);
+                    }
+
+                    let next = same.length ? [same[0]] : parents.filter((parent, i) => parentShas[i] !== null);
+                    next.filter((parent) => !visited.has(parent.sha())).forEach((parent) => {
+                        visited.add(parent.sha());
+                        pending.push(parent);
+                    });
+                    pending.sort((a, b) => b.date().getTime() - a.date().getTime());
+
+                    return visit();
+                });
+            });
+        };
+
+        return this._getRepository().then((repo) => {
+            return repo.getHeadCommit();
+        }).then((head) => {
+            if (!head) {
+                return [];
+            }
+
+            return getBlobSha(head).then((blobSha: string) => {
+                if (!blobSha) {
+                    return;
+                }
+                visited.add(head.sha());
+                pending.push(head);
+                return visit();
+            }).then(() => {
+                return changes.map((commit) => {
+                    return {
+                        sha: commit.sha(),
+                        date: moment(commit.date()).format(),
+                        author: commit.author().name(),
+                        message: commit.message().trim(),
+                    };
+                });
+            });
+        });
+    }
+
+    /**
+     * Content of the file in the commit
+     */
+    readFile(pathname: string, sha: string): Promise<string> {
+        logger.info('readFile method called');
+
+        return this._getRepository().then((repo) => {
+            return repo.getCommit(sha);
+        }).then((commit) => {
+            return commit.getEntry(pathname);
+        }).then((entry) => {
+            return entry.getBlob();
+        }).then((blob) => {
+            return blob.toString();
+        });
+    }
+
     private _getRepository() {
         if (this._repository) {
             return this._repository;
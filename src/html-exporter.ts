@@ -0,0 +1,237 @@
+import { sep as pathSep, extname, join, posix } from 'path';
+import { readFile, writeFile, ensureDir, ensureFile } from 'fs-promise';
+import { AllHtmlEntities } from 'html-entities';
+import ServiceLocator from './service-locator';
+import { Note, Notebook } from './note';
+import { parseWikiLink } from './link-index';
+import { noteHtml, renderResultHtml } from './views/reader';
+
+// rules of the stylesheets shown by the reader: markdown body and highlight.js theme
+const READER_SELECTOR_REG = /\.markdown-body|\.hljs/;
+// local images resolved by the note renderer
+const IMAGE_SRC_REG = /(<img\s[^>]*?src=")(file:\/\/[^"]*)(")/g;
+const ANCHOR_REG = /<a\s[^>]*>/g;
+const INDEX_PAGE = 'index.html';
+const IMAGE_MIME_TYPES = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.bmp': 'image/bmp',
+    '.webp': 'image/webp',
+};
+
+const entities = new AllHtmlEntities();
+
+/**
+ * Path of the file url made by `resolveLink`
+ */
+function fileUrlToPath(url: string): string {
+    let pathname = entities.decode(url).replace(/^file:\/\//, '');
+    try {
+        pathname = decodeURI(pathname);
+    } catch (e) { }
+
+    pathname = pathname.replace(/%23/g, '#');
+    // windows path starts with drive letter
+    if (/^\/[a-z]:\//i.test(pathname)) {
+        pathname = pathname.substr(1);
+    }
+    return pathname.split('/').join(pathSep);
+}
+
+function sortByName<T extends Note | Notebook>(items: Iterable<T>): T[] {
+    return Array.from(items).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Styles applied to notes in the reader, collected from the loaded stylesheets
+ * so the exported page looks the same
+ */
+export function collectReaderStyles(): string {
+    let rules: string[] = [];
+
+    for (const sheet of Array.from(document.styleSheets) as CSSStyleSheet[]) {
+        let cssRules: CSSRuleList;
+        try {
+            cssRules = sheet.cssRules;
+        } catch (e) {
+            // not readable
+            continue;
+        }
+
+        for (const rule of Array.from(cssRules)) {
+            if ((rule.type === CSSRule.STYLE_RULE && READER_SELECTOR_REG.test((rule as CSSStyleRule).selectorText))
+                // fonts of the markdown body are embedded already
+                || (rule.type === CSSRule.FONT_FACE_RULE && rule.cssText.indexOf('data:') !== -1)) {
+                rules.push(rule.cssText);
+            }
+        }
+    }
+
+    // background and font of the reader pane
+    let readerEl = document.querySelector('#main .reader');
+    let readerStyle = readerEl ? getComputedStyle(readerEl) : null;
+    rules.unshift(`body { margin: 0; padding: 20px 30px; `
+        + `background-color: ${readerStyle ? readerStyle.backgroundColor : '#fff'}; `
+        + `font-family: ${readerStyle ? readerStyle.fontFamily : 'arial, sans-serif'}; }`);
+
+    return rules.join('\n');
+}
+
+function pageHtml(title: string, styles: string, body: string): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${entities.encode(title)}</title>
+<style>
+${styles}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Html of the note as the reader renders it
+ */
+function renderNote(note: Note): string {
+    return noteHtml(renderResultHtml(ServiceLocator.noteRenderer.render(note)));
+}
+
+/**
+ * Replace local images with data uris, images which cannot be read are kept
+ */
+function embedImages(html: string): Promise<string> {
+    let urls = new Set<string>();
+    html.replace(IMAGE_SRC_REG, (img: string, start: string, url: string) => {
+        urls.add(url);
+        return img;
+    });
+
+    let dataUris = new Map<string, string>();
+    return Promise.all(Array.from(urls).map((url: string) => {
+        let pathname = fileUrlToPath(url);
+        let mimeType = IMAGE_MIME_TYPES[extname(pathname).toLowerCase()];
+        if (!mimeType) {
+            return;
+        }
+
+        return readFile(pathname).then((data: Buffer) => {
+            dataUris.set(url, `data:${mimeType};base64,${data.toString('base64')}`);
+        }, (e) => {
+            ServiceLocator.logger.error(e);
+        });
+    })).then(() => {
+        return html.replace(IMAGE_SRC_REG, (img: string, start: string, url: string, end: string) => {
+            return dataUris.has(url) ? `${start}${dataUris.get(url)}${end}` : img;
+        });
+    });
+}
+
+/**
+ * Point wiki links and relative links to other notes at the href given by `getHref`,
+ * a link is kept if it returns null
+ */
+function rewriteNoteLinks(html: string, note: Note, notesByFilename: Map<string, Note>,
+    getHref: (target: Note) => string): string {
+
+    let manager = ServiceLocator.noteManager;
+
+    return html.replace(ANCHOR_REG, (tag: string) => {
+        let href = /\shref="([^"]*)"/.exec(tag);
+        let dataLink = /\sdata-link="([^"]*)"/.exec(tag);
+        if (!href) {
+            return tag;
+        }
+
+        let target: Note = null;
+        if (dataLink) {
+            let link = parseWikiLink(entities.decode(dataLink[1]));
+            target = link ? manager.resolveWikiLink(link, note) : null;
+        } else if (href[1].startsWith('file://')) {
+            target = notesByFilename.get(fileUrlToPath(href[1])) || null;
+        }
+
+        let newHref = target ? getHref(target) : null;
+        return newHref === null ? tag : tag.replace(href[0], ` href="${entities.encode(newHref)}"`);
+    });
+}
+
+function indexHtml(notebook: Notebook, pages: Map<Note, string>): string {
+    let list = (current: Notebook): string => {
+        let items = '';
+        for (const subNotebook of sortByName(current.notebooks.values())) {
+            items += `<li><strong>${entities.encode(subNotebook.name)}</strong>${list(subNotebook)}</li>`;
+        }
+        for (const note of sortByName(current.notes.values())) {
+            if (pages.has(note)) {
+                items += `<li><a href="${encodeURI(pages.get(note))}">${entities.encode(note.name)}</a></li>`;
+            }
+        }
+        return items ? `<ul>${items}</ul>` : '';
+    };
+
+    return noteHtml(`<h1>${entities.encode(notebook.name)}</h1>${list(notebook)}`);
+}
+
+/**
+ * Write the note into a standalone html file, styles and local images are embedded
+ */
+export function exportNoteHtml(note: Note, filename: string): Promise<void> {
+    return embedImages(renderNote(note)).then((body: string) => {
+        return writeFile(filename, pageHtml(note.name, collectReaderStyles(), body));
+    });
+}
+
+/**
+ * Write notes of the notebook and its sub notebooks into the directory, one page for each note
+ * in the directories of sub notebooks and an index page linking them. Links between the exported
+ * notes are pointed at their pages. Resolve count of the exported notes
+ */
+export function exportNotebookHtml(notebook: Notebook, outDir: string): Promise<number> {
+    let manager = ServiceLocator.noteManager;
+    let styles = collectReaderStyles();
+    // note -> path of the page relative to the output directory, separated by `/`
+    let pages = new Map<Note, string>();
+    let notesByFilename = new Map<string, Note>();
+
+    let walk = (current: Notebook, dirs: string[]) => {
+        for (const note of current.notes.values()) {
+            // locked notes cannot be read
+            if (manager.isMissingNote(note) || note.locked) {
+                continue;
+            }
+            // the index page takes the name
+            let pageName = note.slug === 'index' ? `${note.slug}-note.html` : `${note.slug}.html`;
+            pages.set(note, dirs.concat(pageName).join('/'));
+            notesByFilename.set(note.filename, note);
+        }
+        for (const subNotebook of current.notebooks.values()) {
+            walk(subNotebook, dirs.concat(subNotebook.slug));
+        }
+    };
+    walk(notebook, []);
+
+    let promise: Promise<any> = ensureDir(outDir);
+    for (const [note, page] of pages) {
+        promise = promise.then(() => {
+            let html = rewriteNoteLinks(renderNote(note), note, notesByFilename, (target: Note) => {
+                return pages.has(target) ? encodeURI(posix.relative(posix.dirname(page), pages.get(target))) : null;
+            });
+            return embedImages(html);
+        }).then((body: string) => {
+            let filename = join(outDir, ...page.split('/'));
+            return ensureFile(filename).then(() => writeFile(filename, pageHtml(note.name, styles, body)));
+        });
+    }
+
+    return promise.then(() => {
+        return writeFile(join(outDir, INDEX_PAGE), pageHtml(notebook.name, styles, indexHtml(notebook, pages)));
+    }).then(() => pages.size);
+}
@@ -0,0 +1,441 @@
+import { sep as pathSep, extname, basename, join } from 'path';
+import { readdir, readFile, stat } from 'fs-promise';
+import { createHash } from 'crypto';
+import * as moment from 'moment';
+import { AllHtmlEntities } from 'html-entities';
+import { Notebook, NOTEBOOK_PATH_SEP } from './note';
+import { INoteMetadata, formatDate, setFrontMatter } from './front-matter';
+import {
+    ASSETS_DIRNAME, isRelativeLink, replaceLinks, attachmentMarkdown, getAssetsDirname,
+    saveAttachment, copyAttachment,
+} from './attachments';
+
+const MARKDOWN_EXT_REG = /\.(md|markdown)$/i;
+// e.g. 20170102T030405Z
+const ENEX_DATE_FORMAT = 'YYYYMMDD[T]HHmmss[Z]';
+const MIME_EXTS = {
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/gif': '.gif',
+    'image/svg+xml': '.svg',
+    'image/bmp': '.bmp',
+    'image/webp': '.webp',
+    'application/pdf': '.pdf',
+    'text/plain': '.txt',
+    'text/html': '.html',
+    'audio/mpeg': '.mp3',
+    'audio/wav': '.wav',
+};
+
+const entities = new AllHtmlEntities();
+
+/**
+ * What to do with an imported note whose name is taken in its notebook
+ */
+export type ImportConflictStrategy = 'skip' | 'rename' | 'overwrite';
+
+export interface IImportAttachment {
+    // file name in the assets directory, another one is used if it's taken
+    name: string;
+    // link to the attachment in the content, replaced with the saved file
+    link: string;
+    // data of the attachment, or the file to copy
+    data?: Buffer;
+    pathname?: string;
+}
+
+export interface IImportNote {
+    // names of the notebooks under the target notebook
+    path: string[];
+    name: string;
+    content: string;
+    attachments: IImportAttachment[];
+}
+
+export interface IImportSource {
+    notes: IImportNote[];
+    // files or notes which could not be read
+    errors: string[];
+}
+
+export interface IImportSummary {
+    // paths of the notes, e.g. Imported/Recipes/Soup
+    imported: string[];
+    renamed: string[];
+    overwritten: string[];
+    skipped: string[];
+    attachments: number;
+}
+
+function isMarkdownFile(filename: string): boolean {
+    return MARKDOWN_EXT_REG.test(filename);
+}
+
+/**
+ * Files linked relatively by the markdown file, they are copied as attachments
+ */
+function findLinkedFiles(content: string, dirname: string): Promise<IImportAttachment[]> {
+    let links = new Set<string>();
+    replaceLinks(content, (link: string) => {
+        if (isRelativeLink(link)) {
+            links.add(link);
+        }
+        return null;
+    });
+
+    return Promise.all(Array.from(links).map((link: string) => {
+        let target = link.split('#')[0];
+        try {
+            target = decodeURI(target);
+        } catch (e) { }
+
+        let pathname = join(dirname, target);
+        if (!target || isMarkdownFile(target)) {
+            return Promise.resolve(null);
+        }
+        return stat(pathname).then((stats) => {
+            return stats.isFile() ? { name: basename(pathname), link, pathname } : null;
+        }, () => null);
+    })).then((attachments: IImportAttachment[]) => attachments.filter((attachment) => attachment));
+}
+
+/**
+ * Markdown files of the folder become notes, sub folders become sub notebooks
+ */
+export function readMarkdownFolder(dirname: string): Promise<IImportSource> {
+    let source: IImportSource = { notes: [], errors: [] };
+
+    let walk = (dir: string, path: string[]): Promise<any> => {
+        return readdir(dir).then((names: string[]) => {
+            // keep the order stable, so renamed notes get the same names every time
+            names = names.filter((name) => name[0] !== '.').sort();
+
+            let promise: Promise<any> = Promise.resolve();
+            names.forEach((name) => {
+                let pathname = `${dir}${pathSep}${name}`;
+                promise = promise.then(() => stat(pathname)).then((stats) => {
+                    if (stats.isDirectory()) {
+                        return walk(pathname, path.concat(name));
+                    } else if (!stats.isFile() || !isMarkdownFile(name)) {
+                        return;
+                    }
+
+                    return readFile(pathname, { encoding: 'utf8' }).then((content: string) => {
+                        return findLinkedFiles(content, dir).then((attachments) => {
+                            source.notes.push({ path, name: basename(name, extname(name)), content, attachments });
+                        });
+                    });
+                }).catch((e) => {
+                    source.errors.push(`${pathname}: ${e.message}`);
+                });
+            });
+            return promise;
+        });
+    };
+
+    return walk(dirname, []).then(() => source);
+}
+
+function parseEnexDate(value: string): string {
+    let date = moment.utc(value, ENEX_DATE_FORMAT, true);
+    return date.isValid() ? formatDate(date.toDate()) : undefined;
+}
+
+function childText(el: Element, tagName: string): string {
+    let child = Array.from(el.children).find((item) => item.tagName === tagName);
+    return child ? child.textContent.trim() : '';
+}
+
+/**
+ * File name of the resource which is not taken by the other resources of the note
+ */
+function resourceName(resourceEl: Element, hash: string, takenNames: Set<string>): string {
+    let attributesEl = Array.from(resourceEl.children).find((item) => item.tagName === 'resource-attributes');
+    let filename = attributesEl ? childText(attributesEl, 'file-name') : '';
+    let mime = childText(resourceEl, 'mime');
+
+    if (!filename) {
+        filename = `${hash.substr(0, 8)}${MIME_EXTS[mime] || ''}`;
+    }
+    // brackets would end the markdown link before the file is saved
+    filename = filename.replace(/[()\[\]\/\\]/g, '-');
+
+    let ext = extname(filename);
+    let base = basename(filename, ext);
+    let name = filename;
+    for (let i = 2; takenNames.has(name.toLocaleLowerCase()); i++) {
+        name = `${base}-${i}${ext}`;
+    }
+    takenNames.add(name.toLocaleLowerCase());
+    return name;
+}
+
+function readEnexNote(noteEl: Element): IImportNote {
+    let title = childText(noteEl, 'title').replace(new RegExp(NOTEBOOK_PATH_SEP, 'g'), '-') || 'Untitled';
+    let attachments: IImportAttachment[] = [];
+    // md5 of the data -> markdown linking the attachment
+    let media = new Map<string, string>();
+    let takenNames = new Set<string>();
+
+    Array.from(noteEl.children).filter((item) => item.tagName === 'resource').forEach((resourceEl) => {
+        let data = Buffer.from(childText(resourceEl, 'data').replace(/\s+/g, ''), 'base64');
+        let hash = createHash('md5').update(data).digest('hex');
+        let name = resourceName(resourceEl, hash, takenNames);
+
+        attachments.push({ name, link: encodeURI(`${ASSETS_DIRNAME}/${name}`), data });
+        media.set(hash, attachmentMarkdown(name));
+    });
+
+    let metadata: INoteMetadata = {};
+    let created = parseEnexDate(childText(noteEl, 'created'));
+    let updated = parseEnexDate(childText(noteEl, 'updated'));
+    let tags = Array.from(noteEl.children).filter((item) => item.tagName === 'tag')
+        .map((item) => item.textContent.trim())
+        .filter((tag) => tag);
+
+    if (created) {
+        metadata.created = created;
+    }
+    if (updated) {
+        metadata.updated = updated;
+    }
+    if (tags.length) {
+        metadata.tags = tags;
+    }
+
+    let body = enmlToMarkdown(childText(noteEl, 'content'), (hash: string) => media.get(hash) || '');
+    return {
+        path: [],
+        name: title,
+        content: setFrontMatter(body ? `${body}\n` : '', metadata),
+        attachments,
+    };
+}
+
+/**
+ * Notes exported from Evernote, resources of the notes become attachments
+ */
+export function readEnex(filename: string): Promise<IImportSource> {
+    return readFile(filename, { encoding: 'utf8' }).then((xml: string) => {
+        let doc = new DOMParser().parseFromString(xml, 'application/xml');
+        if (doc.getElementsByTagName('parsererror').length || doc.documentElement.tagName !== 'en-export') {
+            throw new Error(`${basename(filename)} is not an Evernote export file`);
+        }
+
+        let source: IImportSource = { notes: [], errors: [] };
+        Array.from(doc.documentElement.children).filter((item) => item.tagName === 'note').forEach((noteEl, i) => {
+            try {
+                source.notes.push(readEnexNote(noteEl));
+            } catch (e) {
+                source.errors.push(`${childText(noteEl, 'title') || `Note ${i + 1}`}: ${e.message}`);
+            }
+        });
+        return source;
+    });
+}
+
+/**
+ * Save attachments of the imported note into its notebook, resolve the content linking the saved files.
+ * Pathnames of the saved files are pushed into `savedFiles` so they could be removed on failure
+ */
+export function saveImportAttachments(notebook: Notebook, note: IImportNote, savedFiles: string[]): Promise<string> {
+    if (notebook.isEncrypted && note.attachments.length) {
+        return Promise.reject(new Error(`${note.name} has attachments, they could not be imported into an encrypted notebook unencrypted`));
+    }
+
+    let content = note.content;
+    let promise: Promise<any> = Promise.resolve();
+
+    // one by one, so the attachments never take the same file name
+    note.attachments.forEach((attachment) => {
+        promise = promise.then(() => {
+            return attachment.data
+                ? saveAttachment(notebook, attachment.name, attachment.data)
+                : copyAttachment(notebook, attachment.pathname);
+        }).then((name: string) => {
+            let link = encodeURI(`${ASSETS_DIRNAME}/${name}`);
+            savedFiles.push(`${getAssetsDirname(notebook)}${pathSep}${name}`);
+            content = replaceLinks(content, (target: string) => target === attachment.link ? link : null);
+        });
+    });
+
+    return promise.then(() => content);
+}
+
+/* ENML (and HTML) to markdown */
+
+interface IConvertContext {
+    // markdown of the en-media element by its hash
+    media: (hash: string) => string;
+}
+
+const LINE_START_REG = /^(#{1,6}\s|>|[-+*]\s|\d+[.)]\s)/;
+
+function escapeText(text: string): string {
+    return text.replace(/[\\`*_\[\]<]/g, '\\$&');
+}
+
+function escapeUrl(url: string): string {
+    return url.replace(/[\s()<>]/g, (char: string) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Drop blank lines made of white spaces and the extra ones between blocks
+ */
+function normalizeBlocks(text: string): string {
+    return text.split('\n')
+        .map((line) => line.trim() ? line : '')
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+function block(text: string): string {
+    return `\n\n${text}\n\n`;
+}
+
+function paragraph(text: string): string {
+    text = normalizeBlocks(text);
+    // the text should not be taken as a heading, quote or list
+    return block(text.replace(LINE_START_REG, (start: string) => {
+        return /^\d/.test(start) ? start.replace(/[.)]/, '\\$&') : `\\${start}`;
+    }));
+}
+
+function wrapInline(marker: string, text: string): string {
+    let trimmed = text.trim();
+    if (!trimmed) {
+        return text;
+    }
+
+    let leading = /^\s*/.exec(text)[0];
+    let trailing = /\s*$/.exec(text)[0];
+    return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function convertChildren(node: Node, context: IConvertContext): string {
+    return Array.from(node.childNodes).map((child) => convertNode(child, context)).join('');
+}
+
+function convertList(listEl: Element, context: IConvertContext): string {
+    let ordered = listEl.tagName.toLowerCase() === 'ol';
+    let start = parseInt(listEl.getAttribute('start'), 10) || 1;
+    let items: string[] = [];
+
+    for (const child of Array.from(listEl.children)) {
+        let tagName = child.tagName.toLowerCase();
+        let text = normalizeBlocks(convertChildren(child, context)).replace(/\n\n+/g, '\n');
+
+        if (tagName === 'ul' || tagName === 'ol') {
+            // list nested without list item, it belongs to the previous item
+            let nested = text.split('\n').map((line) => `    ${line}`).join('\n');
+            items.push(items.length ? `${items.pop()}\n${nested}` : nested);
+            continue;
+        } else if (tagName !== 'li') {
+            continue;
+        }
+
+        let marker = ordered ? `${start + items.length}. ` : '- ';
+        let indent = ' '.repeat(marker.length);
+        items.push(marker + text.split('\n').map((line, i) => i && line ? indent + line : line).join('\n'));
+    }
+    return block(items.join('\n'));
+}
+
+/**
+ * Tables are kept as html, the note renderer doesn't know markdown tables
+ */
+function convertTable(tableEl: Element): string {
+    let rows = Array.from(tableEl.querySelectorAll('tr')).map((rowEl) => {
+        let cells = Array.from(rowEl.children).filter((cellEl) => /^t[dh]$/i.test(cellEl.tagName)).map((cellEl) => {
+            let tagName = cellEl.tagName.toLowerCase();
+            return `<${tagName}>${entities.encode(cellEl.textContent.replace(/\s+/g, ' ').trim())}</${tagName}>`;
+        });
+        return `<tr>${cells.join('')}</tr>`;
+    });
+    return block(`<table>\n${rows.join('\n')}\n</table>`);
+}
+
+function convertNode(node: Node, context: IConvertContext): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+        return escapeText(node.textContent.replace(/\s+/g, ' '));
+    } else if (node.nodeType !== Node.ELEMENT_NODE) {
+        return '';
+    }
+
+    let el = node as Element;
+    let tagName = el.tagName.toLowerCase();
+    switch (tagName) {
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6':
+            let title = normalizeBlocks(convertChildren(el, context)).replace(/\s*\n\s*/g, ' ');
+            return block(`${'#'.repeat(parseInt(tagName[1], 10))} ${title}`);
+        case 'p':
+        case 'div':
+        case 'section':
+        case 'article':
+            return paragraph(convertChildren(el, context));
+        case 'br':
+            return '  \n';
+        case 'hr':
+            return block('---');
+        case 'strong':
+        case 'b':
+            return wrapInline('**', convertChildren(el, context));
+        case 'em':
+        case 'i':
+            return wrapInline('_', convertChildren(el, context));
+        case 'code':
+            return `\`${el.textContent.replace(/`/g, '\'')}\``;
+        case 'pre':
+            return block(`\`\`\`\n${el.textContent.replace(/\n$/, '')}\n\`\`\``);
+        case 'blockquote':
+            let quote = normalizeBlocks(convertChildren(el, context));
+            return block(quote.split('\n').map((line) => line ? `> ${line}` : '>').join('\n'));
+        case 'ul':
+        case 'ol':
+            return convertList(el, context);
+        case 'table':
+            return convertTable(el);
+        case 'a':
+            let href = el.getAttribute('href');
+            let text = convertChildren(el, context).trim();
+            if (!href) {
+                return text;
+            }
+            return `[${text || escapeText(href)}](${escapeUrl(href)})`;
+        case 'img':
+            let src = el.getAttribute('src');
+            return src ? `![${escapeText(el.getAttribute('alt') || '')}](${escapeUrl(src)})` : '';
+        case 'en-media':
+            return context.media(el.getAttribute('hash'));
+        case 'en-todo':
+            return el.getAttribute('checked') === 'true' ? '[x] ' : '[ ] ';
+        case 'head':
+        case 'title':
+        case 'script':
+        case 'style':
+        case 'en-crypt':
+            return '';
+        default:
+            return convertChildren(el, context);
+    }
+}
+
+/**
+ * Convert note content of Evernote to markdown, attachments are linked by `media`
+ */
+export function enmlToMarkdown(enml: string, media: (hash: string) => string): string {
+    let html = enml.replace(/<\?xml[^>]*\?>/, '')
+        .replace(/<!DOCTYPE[^>]*>/i, '')
+        // html parser doesn't know self-closing tags of ENML
+        .replace(/<(en-media|en-todo|en-crypt)([^>]*?)\/>/g, '<$1$2></$1>');
+
+    let doc = new DOMParser().parseFromString(html, 'text/html');
+    let root = doc.querySelector('en-note') || doc.body;
+    return normalizeBlocks(convertNode(root, { media }));
+}
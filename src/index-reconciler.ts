@@ -0,0 +1,200 @@
+import { sep as pathSep } from 'path';
+import { readdir, readFile, stat, exists } from 'fs-promise';
+import { Notebook, Note, convertName } from './note';
+import { parseFrontMatter } from './front-matter';
+import { ASSETS_DIRNAME } from './attachments';
+
+const NOTE_EXT_REG = /\.md$/i;
+const NOTE_EXT = '.md';
+
+export interface IReconcileItem {
+    type: 'note' | 'notebook';
+    // names of the notebooks where the item is, from the top level notebook
+    path: string[];
+    name: string;
+    slug: string;
+    // path on the disk, and the path the index expects in the same directory
+    pathname: string;
+    expectedPathname: string;
+    // indexed note or notebook for mismatched items
+    note?: Note;
+    notebook?: Notebook;
+}
+
+export interface IReconcileReport {
+    // directories and files which are not in the index
+    untrackedNotebooks: IReconcileItem[];
+    untrackedNotes: IReconcileItem[];
+    // indexed notes whose file is gone
+    missingNotes: Note[];
+    // indexed items whose file name is not their slug
+    mismatches: IReconcileItem[];
+    // files which cannot be added cause their slugs are taken
+    conflicts: string[];
+}
+
+interface IEntry {
+    name: string;
+    isDirectory: boolean;
+}
+
+export function hasChanges(report: IReconcileReport): boolean {
+    return report.untrackedNotebooks.length !== 0
+        || report.untrackedNotes.length !== 0
+        || report.mismatches.length !== 0;
+}
+
+function readEntries(dirname: string): Promise<IEntry[]> {
+    return exists(dirname).then((found: boolean) => {
+        return found ? readdir(dirname) : Promise.resolve([]);
+    }).then((names: string[]) => {
+        // hidden entries like .trash and .git are not notes
+        return Promise.all(names.filter((name) => name[0] !== '.').map((name) => {
+            return stat(`${dirname}${pathSep}${name}`).then((stats) => {
+                return { name, isDirectory: stats.isDirectory() };
+            });
+        }));
+    });
+}
+
+/**
+ * Use title in front-matter as note name if the file name is its slug
+ */
+function getNoteName(filename: string, basename: string): Promise<string> {
+    return readFile(filename, { encoding: 'utf8' }).then((content: string) => {
+        let title = parseFrontMatter(content).metadata.title;
+        return title && convertName(title) === convertName(basename) ? title : basename;
+    }, () => basename);
+}
+
+/**
+ * Compare entries of the directory with the indexed notebooks and notes,
+ * both maps are empty for untracked directories
+ */
+function scanDir(dirname: string, path: string[], notebooks: Map<string, Notebook>, notes: Map<string, Note>,
+    report: IReconcileReport): Promise<void> {
+    return readEntries(dirname).then((entries) => {
+        let promises: Promise<void>[] = [];
+        let join = (name: string) => `${dirname}${pathSep}${name}`;
+
+        // slug -> indexed notebook/note
+        let expectedNotebooks = new Map<string, Notebook>();
+        let expectedNotes = new Map<string, Note>();
+        notebooks.forEach((notebook) => expectedNotebooks.set(notebook.slug, notebook));
+        notes.forEach((note) => expectedNotes.set(`${note.slug}${NOTE_EXT}`, note));
+
+        // assets directory of a notebook keeps attachments, not a sub notebook
+        let dirs = entries.filter((entry) => entry.isDirectory && !(path.length && entry.name === ASSETS_DIRNAME))
+            .map((entry) => entry.name);
+        // notes could only be placed in notebooks
+        let files = path.length ? entries.filter((entry) => !entry.isDirectory && NOTE_EXT_REG.test(entry.name))
+            .map((entry) => entry.name) : [];
+
+        // slugs taken by the entries
+        let seenNotebooks = new Set<string>();
+        let seenNotes = new Set<string>();
+
+        // exact matches go first, so they win the slug
+        dirs.filter((dir) => expectedNotebooks.has(dir)).forEach((dir) => {
+            let notebook = expectedNotebooks.get(dir);
+            seenNotebooks.add(dir);
+            promises.push(scanDir(join(dir), notebook.path, notebook.notebooks, notebook.notes, report));
+        });
+        dirs.filter((dir) => !expectedNotebooks.has(dir)).forEach((dir) => {
+            let slug = convertName(dir);
+            let item: IReconcileItem = {
+                type: 'notebook',
+                path,
+                name: dir,
+                slug,
+                pathname: join(dir),
+                expectedPathname: join(slug),
+            };
+
+            if (seenNotebooks.has(slug)) {
+                report.conflicts.push(item.pathname);
+                return;
+            }
+            seenNotebooks.add(slug);
+
+            let notebook = expectedNotebooks.get(slug);
+            if (notebook) {
+                item.name = notebook.name;
+                item.notebook = notebook;
+                report.mismatches.push(item);
+                promises.push(scanDir(item.pathname, notebook.path, notebook.notebooks, notebook.notes, report));
+            } else {
+                report.untrackedNotebooks.push(item);
+                promises.push(scanDir(item.pathname, path.concat(dir), new Map(), new Map(), report));
+            }
+        });
+
+        files.filter((file) => expectedNotes.has(file)).forEach((file) => {
+            seenNotes.add(file);
+        });
+        files.filter((file) => !expectedNotes.has(file)).forEach((file) => {
+            let basename = file.replace(NOTE_EXT_REG, '');
+            let slug = convertName(basename);
+            let item: IReconcileItem = {
+                type: 'note',
+                path,
+                name: basename,
+                slug,
+                pathname: join(file),
+                expectedPathname: join(`${slug}${NOTE_EXT}`),
+            };
+
+            if (seenNotes.has(`${slug}${NOTE_EXT}`)) {
+                report.conflicts.push(item.pathname);
+                return;
+            }
+            seenNotes.add(`${slug}${NOTE_EXT}`);
+
+            let note = expectedNotes.get(`${slug}${NOTE_EXT}`);
+            if (note) {
+                item.name = note.name;
+                item.note = note;
+                report.mismatches.push(item);
+            } else {
+                report.untrackedNotes.push(item);
+                promises.push(getNoteName(item.pathname, basename).then((name) => {
+                    item.name = name;
+                }));
+            }
+        });
+
+        expectedNotes.forEach((note, file) => {
+            // unsaved note will be written on saving
+            if (!seenNotes.has(file) && !note.changed) {
+                report.missingNotes.push(note);
+            }
+        });
+        // notebook without directory is fine, but notes of it are missing
+        expectedNotebooks.forEach((notebook, dir) => {
+            if (!seenNotebooks.has(dir)) {
+                report.missingNotes.push(...notebook.allNotes.filter((note) => !note.changed));
+            }
+        });
+
+        return Promise.all(promises).then(() => {});
+    });
+}
+
+/**
+ * Find out differences between the note directory and the indexed notebooks
+ */
+export function scanNoteDir(basedir: string, notebooks: Map<string, Notebook>): Promise<IReconcileReport> {
+    let report: IReconcileReport = {
+        untrackedNotebooks: [],
+        untrackedNotes: [],
+        missingNotes: [],
+        mismatches: [],
+        conflicts: [],
+    };
+
+    return scanDir(basedir, [], notebooks, new Map(), report).then(() => {
+        // parent notebooks go first
+        report.untrackedNotebooks.sort((a, b) => a.path.length - b.path.length);
+        return report;
+    });
+}
@@ -0,0 +1,98 @@
+import * as moment from 'moment';
+import ServiceLocator from './service-locator';
+import ViewManager from './view-manager';
+import { App } from './app';
+import { Note, Notebook, NOTEBOOK_PATH_SEP } from './note';
+
+// key of the days in the calendar
+export const DAY_FORMAT = 'YYYY-MM-DD';
+
+function getJournalPath(): string[] {
+    return ServiceLocator.config.journal.notebook.split(NOTEBOOK_PATH_SEP)
+        .map((name) => name.trim())
+        .filter((name) => name);
+}
+
+/**
+ * Notebook keeping journal notes, null if it's not created yet
+ */
+export function getJournalNotebook(): Notebook {
+    let path = getJournalPath();
+    return path.length ? ServiceLocator.noteManager.getNotebook(path) : null;
+}
+
+export function getJournalName(date: moment.Moment): string {
+    return date.format(ServiceLocator.config.journal.namePattern);
+}
+
+/**
+ * Date of the journal note, null if the note is not a journal note
+ */
+export function getJournalDate(note: Note): moment.Moment {
+    let notebook = getJournalNotebook();
+    if (!notebook || note.notebook !== notebook) {
+        return null;
+    }
+
+    let date = moment(note.name, ServiceLocator.config.journal.namePattern, true);
+    return date.isValid() ? date : null;
+}
+
+/**
+ * Days having journal notes, in DAY_FORMAT
+ */
+export function getJournalDays(): Set<string> {
+    let days = new Set<string>();
+    let notebook = getJournalNotebook();
+
+    if (notebook) {
+        for (let note of notebook.notes.values()) {
+            let date = getJournalDate(note);
+            if (date) {
+                days.add(date.format(DAY_FORMAT));
+            }
+        }
+    }
+    return days;
+}
+
+/**
+ * Open journal note of the day, the note and its notebook are created if they don't exist
+ */
+export function openJournal(date: moment.Moment) {
+    let manager = ServiceLocator.noteManager;
+    let path = getJournalPath();
+    let name = getJournalName(date);
+
+    if (!path.length) {
+        throw new Error('Journal notebook is not set');
+    } else if (!name) {
+        throw new Error('Journal note name is empty, check the name pattern');
+    }
+
+    let notebook: Notebook = null;
+    for (let notebookName of path) {
+        let notebooks = notebook ? notebook.notebooks : manager.notebooks;
+        notebook = notebooks.get(notebookName) || manager.createNotebook(notebookName, notebook);
+    }
+
+    let note = notebook.notes.get(name);
+    if (note) {
+        // highlight note in notebook list before it becomes the active note
+        ViewManager.notebookList.activateNote(note);
+        App.getInstance().openNote(note);
+        return;
+    }
+
+    // opened by notebook list once it's created
+    manager.createNote(name, notebook, false, ServiceLocator.config.journal.template || undefined, date);
+}
+
+/**
+ * Open journal note of the day before or after the active journal note, or today if
+ * the active note is not a journal note
+ */
+export function openSiblingJournal(days: number) {
+    let date = getJournalDate(App.getInstance().activeNote) || moment().startOf('day');
+    openJournal(date.add(days, 'days'));
+}
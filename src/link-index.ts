@@ -0,0 +1,191 @@
+import { Note, Notebook, NOTEBOOK_PATH_SEP } from './note';
+
+// [[Notebook/Note]], [[Note#Heading]] and [[Note#Heading|label]]
+const WIKI_LINK_SOURCE = '\\[\\[([^\\[\\]|#\\n]+)(?:#([^\\[\\]|\\n]*))?(?:\\|([^\\[\\]\\n]*))?\\]\\]';
+const WIKI_LINK_REG = new RegExp(WIKI_LINK_SOURCE, 'g');
+const LEADING_WIKI_LINK_REG = new RegExp(`^${WIKI_LINK_SOURCE}`);
+// code blocks and inline codes, links inside them are ignored
+const CODE_REG = /(^|\n)(```|~~~)[\s\S]*?(\n\2[^\n]*(?=\n|$)|$)|`[^`\n]*`/g;
+const HEADING_REG = /^#{1,6}\s+(.*?)\s*#*\s*$/;
+
+export interface IWikiLink {
+    // names of the notebooks given in the link, empty if only note name is given
+    path: string[];
+    name: string;
+    heading: string;
+    label: string;
+    // length of the link markdown
+    length: number;
+}
+
+function toWikiLink(matches: RegExpExecArray): IWikiLink {
+    let names = matches[1].split(NOTEBOOK_PATH_SEP).map((name) => name.trim());
+    return {
+        path: names.slice(0, -1),
+        name: names[names.length - 1],
+        heading: (matches[2] || '').trim(),
+        label: (matches[3] || '').trim(),
+        length: matches[0].length,
+    };
+}
+
+/**
+ * Parse the wiki link at the start of the text
+ */
+export function parseWikiLink(text: string): IWikiLink {
+    let matches = LEADING_WIKI_LINK_REG.exec(text);
+    return matches ? toWikiLink(matches) : null;
+}
+
+/**
+ * Apply the function to the parts of the content outside code
+ */
+function mapOutsideCode(content: string, fn: (text: string) => string): string {
+    let result = '';
+    let lastIndex = 0;
+    let matches: RegExpExecArray;
+
+    CODE_REG.lastIndex = 0;
+    while ((matches = CODE_REG.exec(content)) !== null) {
+        result += fn(content.substring(lastIndex, matches.index)) + matches[0];
+        lastIndex = matches.index + matches[0].length;
+    }
+    return result + fn(content.substring(lastIndex));
+}
+
+/**
+ * Wiki links outside code
+ */
+export function extractWikiLinks(content: string): IWikiLink[] {
+    let links: IWikiLink[] = [];
+
+    mapOutsideCode(content, (text: string) => {
+        let matches: RegExpExecArray;
+
+        WIKI_LINK_REG.lastIndex = 0;
+        while ((matches = WIKI_LINK_REG.exec(text)) !== null) {
+            links.push(toWikiLink(matches));
+        }
+        return text;
+    });
+    return links;
+}
+
+/**
+ * Replace wiki links outside code, the link is kept if the replacer returns null
+ */
+export function replaceWikiLinks(content: string, replacer: (link: IWikiLink) => IWikiLink): string {
+    return mapOutsideCode(content, (text: string) => {
+        return text.replace(WIKI_LINK_REG, (markdown: string) => {
+            let newLink = replacer(parseWikiLink(markdown));
+            return newLink ? wikiLinkMarkdown(newLink) : markdown;
+        });
+    });
+}
+
+export function formatWikiLink(link: IWikiLink): string {
+    return link.path.concat(link.name).join(NOTEBOOK_PATH_SEP);
+}
+
+export function wikiLinkMarkdown(link: IWikiLink): string {
+    let heading = link.heading ? `#${link.heading}` : '';
+    let label = link.label ? `|${link.label}` : '';
+    return `[[${formatWikiLink(link)}${heading}${label}]]`;
+}
+
+/**
+ * Line of the heading in the content, starts from 1, 0 if not found
+ */
+export function findHeadingLine(content: string, heading: string): number {
+    let lines = content.split(/\r?\n/);
+    let target = heading.toLocaleLowerCase();
+
+    for (let i = 0; i < lines.length; i++) {
+        let matches = HEADING_REG.exec(lines[i]);
+        if (matches && matches[1].toLocaleLowerCase() === target) {
+            return i + 1;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Wiki links between notes, targets are resolved while querying so renamed or
+ * created notes are linked without re-indexing
+ */
+export class LinkIndex {
+    // note -> wiki links in the note
+    private _links: Map<Note, IWikiLink[]> = new Map();
+    private _resolve: (link: IWikiLink, from: Note) => Note;
+
+    constructor(resolve: (link: IWikiLink, from: Note) => Note) {
+        this._resolve = resolve;
+    }
+
+    /**
+     * Notes linked by the note
+     */
+    getLinks(note: Note): Note[] {
+        let notes = new Set<Note>();
+        for (const link of this._links.get(note) || []) {
+            let target = this._resolve(link, note);
+            if (target) {
+                notes.add(target);
+            }
+        }
+        return Array.from(notes);
+    }
+
+    /**
+     * Wiki links in the note when it's indexed, null if it's not indexed
+     */
+    getWikiLinks(note: Note): IWikiLink[] {
+        let links = this._links.get(note);
+        return links ? links.slice() : null;
+    }
+
+    /**
+     * Notes linking to the note
+     */
+    getBacklinks(note: Note): Note[] {
+        let notes: Note[] = [];
+        for (const [from, links] of this._links) {
+            if (from !== note && links.some((link) => this._resolve(link, from) === note)) {
+                notes.push(from);
+            }
+        }
+        return notes;
+    }
+
+    /**
+     * Index the note, return whether links of the note changed
+     */
+    add(note: Note, content: string): boolean {
+        let links = extractWikiLinks(content);
+        let oldLinks = this._links.get(note);
+        let key = (items: IWikiLink[]) => items.map(formatWikiLink).sort().join('\n');
+
+        this._links.set(note, links);
+        return oldLinks ? key(oldLinks) !== key(links) : links.length !== 0;
+    }
+
+    remove(note: Note): boolean {
+        let links = this._links.get(note);
+        this._links.delete(note);
+        return links ? links.length !== 0 : false;
+    }
+
+    removeNotebook(notebook: Notebook): boolean {
+        let changed = false;
+        for (const note of Array.from(this._links.keys())) {
+            if (notebook.contains(note.notebook)) {
+                changed = this.remove(note) || changed;
+            }
+        }
+        return changed;
+    }
+
+    clear() {
+        this._links.clear();
+    }
+}
@@ -5,7 +5,7 @@ import { readdir } from 'fs-promise';
 import { format as urlFormat } from 'url';
 import { on as processOn } from 'process';
 import { Config, Event as ConfigEvent } from './config';
-import { IpcEvent as NoteManagerIpcEvent, archiveNotes, syncNotes } from './note-manager';
+import { IpcEvent as NoteManagerIpcEvent, archiveNotes, syncNotes, readNoteHistory } from './note-manager';
 import ServiceLocator from './service-locator';
 
 // Keep a global reference of the window object, if you don't, the window will
@@ -29,6 +29,10 @@ function initConfig() {
                     ServiceLocator.git.setRemote(newVal);
                 }
                 break;
+            case 'library':
+                // notes of another library are in another repository
+                ServiceLocator.git.reset();
+                break;
         }
     });
 }
@@ -114,6 +118,15 @@ app.on('ready', () => {
             event.sender.send(NoteManagerIpcEvent.syncFailed);
         });
     });
+
+    ipcMain.on(NoteManagerIpcEvent.history, (event, requestId, filename, sha) => {
+        readNoteHistory(filename, sha).then((result) => {
+            event.sender.send(NoteManagerIpcEvent.historyComplete, requestId, result);
+        }).catch((e) => {
+            logger.error(e);
+            event.sender.send(NoteManagerIpcEvent.historyFailed, requestId, e.message);
+        });
+    });
 });
 
 // Quit when all windows are closed.
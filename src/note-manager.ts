@@ -1,20 +1,178 @@
-import { sep as pathSep } from 'path';
-import { ipcRenderer, ipcMain } from 'electron';
+import { sep as pathSep, relative } from 'path';
+import { ipcRenderer, ipcMain, remote } from 'electron';
 import { EventEmitter } from 'events';
-import { readJson, writeJson, remove, move, exists } from 'fs-promise';
+import { readJson, writeJson, writeFile, readFile, move, exists, rename, remove, copy, ensureFile, stat } from 'fs-promise';
 import { existsSync } from 'fs';
-import { Notebook, Note } from './note';
+import { Notebook, Note, NoteSortMode, NOTEBOOK_PATH_SEP, convertName, uniqueSlug, sortNotes } from './note';
 import { Event as ConfigEvent } from './config';
 import ServiceLocator from './service-locator';
 import { isRendererProcess, checkMainProcess } from './utils';
-import { Git } from './git';
+import { Git, IFileCommit } from './git';
+import { SearchIndex, ISearchResult } from './search-index';
+import { TagIndex, isValidTag, replaceTag } from './tag-index';
+import { LinkIndex, IWikiLink, extractWikiLinks, formatWikiLink } from './link-index';
+import { IReferenceUpdate, IReferenceLink, IPathMove, movePath, rewriteReferences } from './reference-updater';
+import { isTemplatesDirname, listTemplates, readTemplate, fillTemplate } from './templates';
+import { IImportNote, IImportSummary, ImportConflictStrategy, saveImportAttachments } from './importer';
+import { Trash, ITrashItem } from './trash';
+import { IReconcileReport, IReconcileItem, scanNoteDir, hasChanges } from './index-reconciler';
+import { NoteWatcher, Event as WatcherEvent } from './note-watcher';
+import { OperationQueue, IOperationStep } from './operation-queue';
+import { ASSETS_DIRNAME, getAssetsDirname, findAttachments, replaceAttachment, transferAttachment, listAttachments } from './attachments';
+import { IKeyParams, isEncryptedContent, Event as KeyRingEvent } from './encryption';
+import { Scratchpad } from './scratchpad';
+import * as moment from 'moment';
+
+// wait for note manager itself to finish updating index
+const INDEX_CHECK_DELAY = 1000;
+// re-index edited notes once typing pauses
+const INDEX_UPDATE_DELAY = 500;
+// changes of files moved or written by the app itself are reported by the watcher within it
+const EXPECTED_CHANGE_DELAY = 2000;
+
+// index format before notebooks could be nested
+type FlatNoteIndex = { [notebook: string]: string[] };
+
+export interface INoteIndexItem {
+    name: string;
+    slug: string;
+    encrypted?: boolean;
+    // pinned to the favorites
+    favorite?: boolean;
+}
+
+export interface INotebookIndex {
+    name: string;
+    // names only before slugs are kept in the index
+    slug?: string;
+    notes: (INoteIndexItem | string)[];
+    notebooks: INotebookIndex[];
+    // default template of new notes
+    template?: string;
+    encrypted?: boolean;
+    // sort mode of the notes, by name if absent
+    sort?: NoteSortMode;
+    // names of the notes in manual sort mode
+    order?: string[];
+}
+
+interface INoteIndex {
+    version: number;
+    notebooks: INotebookIndex[];
+    // passphrase of the encrypted notes
+    encryption?: IKeyParams;
+}
+
+const INDEX_VERSION = 3;
+
+function migrateIndex(index: FlatNoteIndex): INoteIndex {
+    let notebooks: INotebookIndex[] = Object.keys(index).map((name) => {
+        return { name, notes: index[name], notebooks: [] };
+    });
+    return { version: 2, notebooks };
+}
+
+function getSlugs(items: Map<string, Notebook | Note>): string[] {
+    return Array.from(items.values()).map((item) => item.slug);
+}
+
+function getNotebookSlugs(notebooks: Map<string, Notebook>, parent: Notebook): string[] {
+    // assets directory of the parent notebook is not a sub notebook
+    return parent ? getSlugs(notebooks).concat(ASSETS_DIRNAME) : getSlugs(notebooks);
+}
+
+interface IAttachmentTransfer {
+    // name in the source and target notebook
+    items: { name: string, newName: string, copied: boolean }[];
+    // note content before links are updated
+    oldContent: string;
+}
+
+// contents of the notes before and after references are updated
+interface IReferenceUndo {
+    title: string;
+    items: { note: Note, oldContent: string, newContent: string }[];
+}
+
+/**
+ * Items without slug come from index of old version, colliding names get disambiguated slugs
+ */
+function loadNotebook(raw: INotebookIndex, parent: Notebook = null, slug: string = raw.slug): Notebook {
+    let notebook = new Notebook(raw.name, parent, slug || convertName(raw.name));
+    notebook.template = raw.template || null;
+    notebook.encrypted = !!raw.encrypted;
+    notebook.sortMode = raw.sort || 'name';
+    notebook.noteOrder = raw.order || [];
+
+    (raw.notes || []).forEach((item) => {
+        let name = typeof item === 'string' ? item : item.name;
+        let noteSlug = typeof item === 'string' ? uniqueSlug(name, getSlugs(notebook.notes)) : item.slug;
+        let note = new Note(name, notebook, noteSlug);
+        note.encrypted = typeof item !== 'string' && !!item.encrypted;
+        note.favorite = typeof item !== 'string' && !!item.favorite;
+        notebook.notes.set(name, note);
+    });
+    (raw.notebooks || []).forEach((subRaw) => {
+        let subSlug = subRaw.slug || uniqueSlug(subRaw.name, getNotebookSlugs(notebook.notebooks, notebook));
+        notebook.notebooks.set(subRaw.name, loadNotebook(subRaw, notebook, subSlug));
+    });
+
+    return notebook;
+}
+
+/**
+ * File of the note before slugs are kept in the index
+ */
+function getLegacyFilename(basedir: string, note: Note): string {
+    let dirs = note.notebook.path.map(convertName);
+    return `${basedir}${pathSep}${dirs.join(pathSep)}${pathSep}${convertName(note.name)}.md`;
+}
+
+function sortNotebooks(notebooks: Map<string, Notebook>): Notebook[] {
+    return Array.from(notebooks.values()).sort((a, b) => a.name < b.name ? -1 : (a.name > b.name ? 1 : 0));
+}
 
-type NoteIndex = { [notebook: string]: string[] };
+function dumpNotebook(notebook: Notebook): INotebookIndex {
+    let raw: INotebookIndex = {
+        name: notebook.name,
+        slug: notebook.slug,
+        notes: Array.from(notebook.notes.keys()).sort().map((name) => {
+            let note = notebook.notes.get(name);
+            let item: INoteIndexItem = { name, slug: note.slug };
+            if (note.encrypted) {
+                item.encrypted = true;
+            }
+            if (note.favorite) {
+                item.favorite = true;
+            }
+            return item;
+        }),
+        notebooks: sortNotebooks(notebook.notebooks).map(dumpNotebook),
+    };
+    if (notebook.template) {
+        raw.template = notebook.template;
+    }
+    if (notebook.encrypted) {
+        raw.encrypted = true;
+    }
+    if (notebook.sortMode !== 'name') {
+        raw.sort = notebook.sortMode;
+    }
+    if (notebook.sortMode === 'manual') {
+        raw.order = sortNotes(notebook.notes.values(), notebook).map((note) => note.name);
+    }
+    return raw;
+}
 
 export const IpcEvent = {
     sync: 'ipc:note-manager:sync',
     syncComplete: 'ipc:note-manager:sync-complete',
     syncFailed: 'ipc:note-manager:sync-failed',
+
+    // read note history from git
+    history: 'ipc:note-manager:history',
+    historyComplete: 'ipc:note-manager:history-complete',
+    historyFailed: 'ipc:note-manager:history-failed',
 };
 
 export const Event = {
@@ -22,6 +180,8 @@ export const Event = {
 
     reload: 'note-manager:reload',
     loaded: 'note-manager:loaded',
+    // notes of the old library are about to be dropped
+    switch_library: 'note-manager:switch-library',
 
     // create notebook events
     create_notebook: 'note-manager:create-notebook',
@@ -43,6 +203,11 @@ export const Event = {
     note_renamed: 'note-manager:note-renamed',
     rename_note_failed: 'note-manager:rename-note-failed',
 
+    // move note events
+    move_note: 'note-manager:move-note',
+    note_moved: 'note-manager:note-moved',
+    move_note_failed: 'note-manager:move-note-failed',
+
     // delete notebook events
     delete_notebook: 'note-manager:delete-notebook',
     notebook_deleted: 'note-manager:notebook-deleted',
@@ -56,6 +221,62 @@ export const Event = {
     // save note events
     note_saved: 'note-manager:note-saved',
     save_note_failed: 'note-manager:save-note-failed',
+
+    // note file changed outside events
+    note_reloaded: 'note-manager:note-reloaded',
+    note_conflict: 'note-manager:note-conflict',
+    missing_notes_changed: 'note-manager:missing-notes-changed',
+
+    // tag events
+    tags_changed: 'note-manager:tags-changed',
+    rename_tag: 'note-manager:rename-tag',
+    tag_renamed: 'note-manager:tag-renamed',
+    rename_tag_failed: 'note-manager:rename-tag-failed',
+
+    // wiki link events
+    links_changed: 'note-manager:links-changed',
+
+    // update references events
+    references_found: 'note-manager:references-found',
+    update_references: 'note-manager:update-references',
+    references_updated: 'note-manager:references-updated',
+    update_references_failed: 'note-manager:update-references-failed',
+
+    // trash events
+    trash_changed: 'note-manager:trash-changed',
+    restore_trash_item: 'note-manager:restore-trash-item',
+    trash_item_restored: 'note-manager:trash-item-restored',
+    restore_trash_item_failed: 'note-manager:restore-trash-item-failed',
+
+    // reconcile index events
+    index_out_of_sync: 'note-manager:index-out-of-sync',
+    reconcile_index: 'note-manager:reconcile-index',
+    index_reconciled: 'note-manager:index-reconciled',
+    reconcile_index_failed: 'note-manager:reconcile-index-failed',
+
+    // import notes events
+    import_notes: 'note-manager:import-notes',
+    import_progress: 'note-manager:import-progress',
+    notes_imported: 'note-manager:notes-imported',
+    import_notes_failed: 'note-manager:import-notes-failed',
+
+    // encryption events
+    set_encryption: 'note-manager:set-encryption',
+    encryption_set: 'note-manager:encryption-set',
+    set_encryption_failed: 'note-manager:set-encryption-failed',
+    lock_notes: 'note-manager:lock-notes',
+    notes_locked: 'note-manager:notes-locked',
+    notes_unlocked: 'note-manager:notes-unlocked',
+
+    // favorite events
+    set_favorite: 'note-manager:set-favorite',
+    favorite_set: 'note-manager:favorite-set',
+    set_favorite_failed: 'note-manager:set-favorite-failed',
+
+    // sort events, notes are rearranged in the notebook
+    sort_notes: 'note-manager:sort-notes',
+    notes_sorted: 'note-manager:notes-sorted',
+    sort_notes_failed: 'note-manager:sort-notes-failed',
 };
 
 /**
@@ -99,26 +320,76 @@ export function syncNotes(sender?: Electron.WebContents): Promise<any> {
     });
 }
 
+function getRepositoryPath(filename: string): string {
+    return relative(ServiceLocator.config.noteDir, filename).split(pathSep).join('/');
+}
+
+/**
+ * Could only by called in main process, content of the version is read if sha is given
+ */
+export function readNoteHistory(filename: string, sha?: string): Promise<IFileCommit[] | string> {
+    checkMainProcess();
+
+    let git = ServiceLocator.git;
+    let pathname = getRepositoryPath(filename);
+    return sha ? git.readFile(pathname, sha) : git.fileHistory(pathname);
+}
+
 export class NoteManager extends EventEmitter {
     // Notes structure
     private _notebooks: Map<string, Notebook>;
 
-    private _orphanNote: Note;
+    // untitled notes kept between sessions, the active one is the orphan note
+    private _scratchpad: Scratchpad;
     // base directory to store notes
     private _basedir: string;
+    // full-text index of note contents
+    private _searchIndex: SearchIndex;
+    private _tagIndex: TagIndex;
+    // wiki links between notes
+    private _linkIndex: LinkIndex;
+    // deleted notes and notebooks
+    private _trash: Trash;
+    // indexed notes whose file is gone
+    private _missingNotes: Set<Note>;
+    // changes made outside the app
+    private _watcher: NoteWatcher;
+    private _indexCheckTimer: NodeJS.Timer;
+    // edited notes waiting to be re-indexed
+    private _indexUpdateTimers: Map<Note, NodeJS.Timer>;
+    // pathname -> expiry timer, files and directories moved or written by the app itself
+    private _expectedPaths: Map<string, NodeJS.Timer>;
+    // names and slugs taken by queued creations, by the notes or notebooks they go into
+    private _reservations: Map<Map<string, Note | Notebook>, { names: Set<string>, slugs: string[] }>;
+    // untracked items reported last time, not to report them again
+    private _reportedItems: string;
+    // operations changing notebooks and notes run one after another
+    private _queue: OperationQueue;
+    // history requests waiting for the main process
+    private _historyRequests: Map<number, { resolve: (result: any) => void, reject: (e: Error) => void }>;
+    private _historyRequestId: number;
+    // last update of references, could be undone
+    private _referenceUndo: IReferenceUndo;
 
     get notebooks(): Map<string, Notebook> {
         return this._notebooks;
     }
 
     get orphanNote(): Note {
-        if (!this._orphanNote || this._orphanNote.notebook) { // undefined or no longer a orphan
-            // TODO: need a orphan note name ??
-            let note = new Note('');
-            note.content = '';
-            this._orphanNote = note;
-        }
-        return this._orphanNote;
+        return this._scratchpad.activeNote;
+    }
+
+    get scratchpad(): Scratchpad {
+        return this._scratchpad;
+    }
+
+    // tag -> count of notes carrying the tag
+    get tags(): Map<string, number> {
+        return this._tagIndex.tags;
+    }
+
+    get trashItems(): ITrashItem[] {
+        return this._trash.items;
     }
 
     get basedir(): string {
@@ -133,6 +404,22 @@ export class NoteManager extends EventEmitter {
         super();
 
         this._notebooks = new Map<string, Notebook>();
+        this._searchIndex = new SearchIndex();
+        this._tagIndex = new TagIndex();
+        this._linkIndex = new LinkIndex((link: IWikiLink, from: Note) => this.resolveWikiLink(link, from));
+        this._trash = new Trash();
+        this._missingNotes = new Set();
+        this._watcher = new NoteWatcher();
+        this._reportedItems = '';
+        this._indexUpdateTimers = new Map();
+        this._expectedPaths = new Map();
+        this._reservations = new Map();
+        this._queue = new OperationQueue();
+        this._historyRequests = new Map();
+        this._historyRequestId = 0;
+        this._referenceUndo = null;
+        this._scratchpad = new Scratchpad(`${remote.app.getPath('userData')}${pathSep}scratch`);
+        this._scratchpad.loadSync();
 
         let config = ServiceLocator.config;
         this._basedir = config.noteDir;
@@ -150,7 +437,28 @@ export class NoteManager extends EventEmitter {
             ServiceLocator.alerter.fatal(`Sync notes failed! Check log: ${ServiceLocator.logger.logfile} for details`);
         })
 
+        ipcRenderer.on(IpcEvent.historyComplete, (event, requestId: number, result) => {
+            let request = this._historyRequests.get(requestId);
+            if (request) {
+                this._historyRequests.delete(requestId);
+                request.resolve(result);
+            }
+        });
+
+        ipcRenderer.on(IpcEvent.historyFailed, (event, requestId: number, message: string) => {
+            let request = this._historyRequests.get(requestId);
+            if (request) {
+                this._historyRequests.delete(requestId);
+                request.reject(new Error(message));
+            }
+        });
+
         config.on(ConfigEvent.change, (name, newVal, oldVal) => {
+            if (name === 'library') {
+                // another library is opened, notes stay where they are
+                this._switchLibrary(newVal, oldVal);
+                return;
+            }
             if (name !== 'noteDir') {
                 return;
             }
@@ -166,6 +474,285 @@ export class NoteManager extends EventEmitter {
                 this._move(newVal);
             }
         });
+
+        ServiceLocator.keyRing.on(KeyRingEvent.idle, () => {
+            this.lockNotes().catch((e) => {
+                ServiceLocator.alerter.warn(e.message);
+            });
+        });
+
+        this._initIndexHandlers();
+        this._initWatchHandlers();
+    }
+
+    private _initIndexHandlers() {
+        // before the note is listed, so it's sorted by time as well
+        this.on(Event.create_note, (note: Note) => {
+            note.createdAt = note.createdAt || new Date();
+            note.modifiedAt = note.modifiedAt || note.createdAt;
+        });
+        this.on(Event.note_created, (note: Note) => {
+            this.updateIndexes(note);
+        });
+        this.on(Event.note_saved, (note: Note) => {
+            note.modifiedAt = new Date();
+            this.updateIndexes(note);
+        });
+        this.on(Event.note_reloaded, (note: Note) => {
+            note.modifiedAt = new Date();
+            this.updateIndexes(note);
+        });
+        this.on(Event.note_deleted, (note: Note) => {
+            this._cancelIndexUpdate(note);
+            this._searchIndex.remove(note);
+            if (this._tagIndex.remove(note)) {
+                this.emit(Event.tags_changed);
+            }
+            if (this._linkIndex.remove(note)) {
+                this.emit(Event.links_changed);
+            }
+        });
+        this.on(Event.notebook_deleted, (notebook: Notebook) => {
+            for (let note of Array.from(this._indexUpdateTimers.keys())) {
+                if (notebook.contains(note.notebook)) {
+                    this._cancelIndexUpdate(note);
+                }
+            }
+            this._searchIndex.removeNotebook(notebook);
+            if (this._tagIndex.removeNotebook(notebook)) {
+                this.emit(Event.tags_changed);
+            }
+            if (this._linkIndex.removeNotebook(notebook)) {
+                this.emit(Event.links_changed);
+            }
+        });
+        // note names are indexed for prefix lookup while searching, links read them from the note object
+        this.on(Event.rename_note, (note: Note) => {
+            this._searchIndex.updateName(note);
+        });
+        this.on(Event.rename_note_failed, (newName: string, note: Note) => {
+            this._searchIndex.updateName(note);
+        });
+    }
+
+    private _initWatchHandlers() {
+        this._watcher.on(WatcherEvent.change, (pathname: string) => {
+            if (this._isExpectedChange(pathname)) {
+                return;
+            }
+
+            let note = this._findNote(pathname);
+            if (!note) {
+                // notes or notebooks added or removed outside
+                this._scheduleIndexCheck();
+                return;
+            }
+
+            exists(pathname).then((found: boolean) => {
+                if (!found) {
+                    this._scheduleIndexCheck();
+                    return;
+                }
+
+                return readFile(pathname, { encoding: 'utf8' }).then((content: string) => {
+                    if (this._missingNotes.has(note)) {
+                        this._scheduleIndexCheck();
+                    }
+
+                    if (isEncryptedContent(content)) {
+                        // read again once notes are unlocked
+                        if (note.locked || !ServiceLocator.keyRing.unlocked) {
+                            return;
+                        }
+                        content = ServiceLocator.keyRing.decrypt(content);
+                    }
+
+                    // saved by the app itself or not changed at all
+                    if (content === note.savedContent) {
+                        return;
+                    }
+
+                    if (note.changed) {
+                        this.emit(Event.note_conflict, note, content);
+                    } else {
+                        this.reloadNote(note, content);
+                    }
+                });
+            }).catch((e) => {
+                ServiceLocator.logger.error(e);
+            });
+        });
+    }
+
+    /**
+     * Run the file operation with changes of the paths, before and after it's done, ignored by the watcher
+     * until a while after it's done. Otherwise notes which were never read look changed outside
+     */
+    private _expectChanges(getPathnames: () => string[], operation: () => Promise<any> | void): Promise<void> {
+        let expect = () => {
+            for (let pathname of getPathnames()) {
+                clearTimeout(this._expectedPaths.get(pathname));
+                this._expectedPaths.set(pathname, setTimeout(() => {
+                    this._expectedPaths.delete(pathname);
+                }, EXPECTED_CHANGE_DELAY));
+            }
+        };
+
+        expect();
+        return Promise.resolve().then(operation).then(() => {
+            expect();
+        }, (e) => {
+            expect();
+            throw e;
+        });
+    }
+
+    private _isExpectedChange(pathname: string): boolean {
+        for (let expected of this._expectedPaths.keys()) {
+            // files in moved directories
+            if (pathname === expected || pathname.startsWith(`${expected}${pathSep}`)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private _findNote(filename: string): Note {
+        for (let notebook of this.walkNotebooks()) {
+            for (let note of notebook.notes.values()) {
+                if (note.filename === filename) {
+                    return note;
+                }
+            }
+        }
+        return null;
+    }
+
+    private _scheduleIndexCheck() {
+        clearTimeout(this._indexCheckTimer);
+        this._indexCheckTimer = setTimeout(() => {
+            // files are being changed by operations of the app itself
+            if (!this._queue.idle) {
+                this._scheduleIndexCheck();
+                return;
+            }
+
+            this.checkNoteDir().then((report: IReconcileReport) => {
+                this._setMissingNotes(report.missingNotes);
+
+                let reportedItems = report.untrackedNotebooks.concat(report.untrackedNotes, report.mismatches)
+                    .map((item) => item.pathname)
+                    .sort()
+                    .join('\n');
+                if (hasChanges(report) && reportedItems !== this._reportedItems) {
+                    this.emit(Event.index_out_of_sync, report);
+                }
+                this._reportedItems = reportedItems;
+            }).catch((e) => {
+                ServiceLocator.logger.error(e);
+            });
+        }, INDEX_CHECK_DELAY);
+    }
+
+    private _setMissingNotes(notes: Note[]) {
+        let missingNotes = new Set(notes);
+        let changed = missingNotes.size !== this._missingNotes.size || notes.some((note) => !this._missingNotes.has(note));
+
+        this._missingNotes = missingNotes;
+        if (changed) {
+            this.emit(Event.missing_notes_changed);
+        }
+    }
+
+    /**
+     * Replace note content with the one on the disk
+     */
+    reloadNote(note: Note, content: string) {
+        note.reload(content);
+        this.emit(Event.note_reloaded, note);
+    }
+
+    /**
+     * Re-index note, content could be unsaved
+     */
+    updateIndexes(note: Note, content: string = note.content) {
+        this._cancelIndexUpdate(note);
+        this._searchIndex.add(note, content);
+        if (this._tagIndex.add(note, content)) {
+            this.emit(Event.tags_changed);
+        }
+        if (this._linkIndex.add(note, content)) {
+            this.emit(Event.links_changed);
+        }
+    }
+
+    /**
+     * Re-index the note being edited once typing pauses, tokenizing it on every keystroke is too slow
+     */
+    scheduleIndexUpdate(note: Note) {
+        this._cancelIndexUpdate(note);
+        this._indexUpdateTimers.set(note, setTimeout(() => {
+            this._indexUpdateTimers.delete(note);
+            this.updateIndexes(note);
+        }, INDEX_UPDATE_DELAY));
+    }
+
+    private _cancelIndexUpdate(note: Note) {
+        clearTimeout(this._indexUpdateTimers.get(note));
+        this._indexUpdateTimers.delete(note);
+    }
+
+    isMissingNote(note: Note): boolean {
+        return this._missingNotes.has(note);
+    }
+
+    search(query: string): ISearchResult[] {
+        return this._searchIndex.search(query);
+    }
+
+    getTaggedNotes(tag: string): Note[] {
+        return this._tagIndex.getNotes(tag);
+    }
+
+    hasTag(note: Note, tag: string): boolean {
+        return this._tagIndex.hasTag(note, tag);
+    }
+
+    /**
+     * Target note of the wiki link, null if it doesn't exist.
+     * A link with notebook path is looked up from the top level notebooks, otherwise the note
+     * is looked up in the notebook of the linking note first, then in all notebooks
+     */
+    resolveWikiLink(link: IWikiLink, from: Note): Note {
+        if (link.path.length) {
+            let notebook = this.getNotebook(link.path);
+            return notebook ? notebook.notes.get(link.name) || null : null;
+        }
+
+        if (from && from.notebook && from.notebook.notes.has(link.name)) {
+            return from.notebook.notes.get(link.name);
+        }
+
+        for (let notebook of this.walkNotebooks()) {
+            if (notebook.notes.has(link.name)) {
+                return notebook.notes.get(link.name);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Notes linked by wiki links of the note
+     */
+    getLinkedNotes(note: Note): Note[] {
+        return this._linkIndex.getLinks(note);
+    }
+
+    /**
+     * Notes having wiki links to the note
+     */
+    getBacklinks(note: Note): Note[] {
+        return this._linkIndex.getBacklinks(note);
     }
 
     sync() {
@@ -180,40 +767,473 @@ export class NoteManager extends EventEmitter {
         ipcRenderer.send(IpcEvent.sync);
     }
 
-    load() {
+    /**
+     * Commits changing the note file, the latest one goes first
+     */
+    getHistory(note: Note): Promise<IFileCommit[]> {
+        return this._requestHistory(note.filename);
+    }
+
+    /**
+     * Content of the note in the commit
+     */
+    getVersion(note: Note, sha: string): Promise<string> {
+        return this._requestHistory(note.filename, sha).then((content: string) => {
+            return isEncryptedContent(content) ? ServiceLocator.keyRing.decrypt(content) : content;
+        });
+    }
+
+    private _requestHistory(filename: string, sha?: string): Promise<any> {
+        let requestId = ++this._historyRequestId;
+
+        return new Promise((resolve, reject) => {
+            this._historyRequests.set(requestId, { resolve, reject });
+            ipcRenderer.send(IpcEvent.history, requestId, filename, sha);
+        });
+    }
+
+    load(): Promise<void> {
         let indexFile = this._getIndexFile();
 
         // not select note directory yet
         if (!indexFile) {
-            return;
+            return Promise.resolve();
         }
 
-        exists(indexFile).then((exists: boolean) => {
-            return exists ? readJson(indexFile) : Promise.resolve({});
-        }).then((index: NoteIndex) => {
+        let migrated = false;
+        return exists(indexFile).then((exists: boolean) => {
+            return exists ? readJson(indexFile) : Promise.resolve({ version: INDEX_VERSION, notebooks: [] });
+        }).then((index: INoteIndex | FlatNoteIndex) => {
+            if (!index.version) {
+                index = migrateIndex(index as FlatNoteIndex);
+            }
+            if ((index as INoteIndex).version < INDEX_VERSION) {
+                ServiceLocator.logger.info('Migrate note index to version %d', INDEX_VERSION);
+                migrated = true;
+            }
+
             let isReload = this._notebooks.size ? true : false;
             let notes = new Map<string, Notebook>();
 
-            for (let notebookName in index) {
-                let notebook = new Notebook(notebookName);
-                index[notebookName].forEach((noteName) => {
-                    notebook.notes.set(noteName, new Note(noteName, notebook));
-                });
-                notes.set(notebookName, notebook);
-            }
+            ServiceLocator.keyRing.params = (index as INoteIndex).encryption;
+
+            (index as INoteIndex).notebooks.forEach((raw) => {
+                notes.set(raw.name, loadNotebook(raw, null, raw.slug || uniqueSlug(raw.name, getSlugs(notes))));
+            });
             this._notebooks = notes;
 
-            // emit loaded or reload event
-            if (isReload) {
-                this.emit(Event.reload);
-            } else {
-                this.emit(Event.loaded);
+            return (migrated ? this._migrateFiles() : Promise.resolve()).then(() => {
+                return this.checkNoteDir();
+            }).catch((e) => {
+                ServiceLocator.logger.error(e);
+                return null;
+            }).then((report: IReconcileReport) => {
+                // notes without file are flagged until the index is reconciled
+                this._missingNotes = new Set(report ? report.missingNotes : []);
+                this._reportedItems = '';
+                return this._loadNoteTimes().then(() => report);
+            }).then((report: IReconcileReport) => {
+                this._buildIndexes();
+                this._loadTrash();
+                this._watcher.start(this.basedir);
+
+                // emit loaded or reload event
+                if (isReload) {
+                    this.emit(Event.reload);
+                } else {
+                    this.emit(Event.loaded);
+                }
+
+                if (this._missingNotes.size) {
+                    ServiceLocator.alerter.warn(`Files of ${this._missingNotes.size} notes are missing, __Check note directory__ to drop them`);
+                }
+                if (report && hasChanges(report)) {
+                    this.emit(Event.index_out_of_sync, report);
+                }
+
+                if (migrated) {
+                    return this._save();
+                }
+            });
+        }).catch((e) => {
+            throw e;
+        });
+    }
+
+    /**
+     * Names which shared a file before slugs are kept in the index get their own
+     * slugs while loading, copy the shared file for them
+     */
+    private _migrateFiles(): Promise<void> {
+        let basedir = this.basedir;
+        let promises: Promise<void>[] = [];
+
+        for (let notebook of this.walkNotebooks()) {
+            for (let note of notebook.notes.values()) {
+                let legacyFilename = getLegacyFilename(basedir, note);
+                if (legacyFilename === note.filename) {
+                    continue;
+                }
+
+                promises.push(Promise.all([exists(legacyFilename), exists(note.filename)]).then(([found, occupied]) => {
+                    if (found && !occupied) {
+                        ServiceLocator.logger.info(`Copy ${legacyFilename} to ${note.filename}`);
+                        return copy(legacyFilename, note.filename);
+                    }
+                }));
+            }
+        }
+
+        return Promise.all(promises).then(() => {});
+    }
+
+    /**
+     * Compare the note directory with the index, nothing is changed
+     */
+    checkNoteDir(): Promise<IReconcileReport> {
+        return scanNoteDir(this.basedir, this._notebooks);
+    }
+
+    /**
+     * Apply the report of `checkNoteDir`: rename mismatched files, add untracked notes
+     * and drop or flag notes whose file is missing
+     */
+    reconcile(report: IReconcileReport, dropMissing: boolean = false): Promise<void> {
+        let renames = report.mismatches.concat(report.untrackedNotes, report.untrackedNotebooks).filter((item) => {
+            return item.pathname !== item.expectedPathname;
+        });
+        // rename files first, then directories from the deepest one,
+        // so pathnames of the items remain valid while renaming
+        renames.sort((a, b) => {
+            if (a.type !== b.type) {
+                return a.type === 'note' ? -1 : 1;
             }
+            return b.path.length - a.path.length;
+        });
+
+        // emit reconcile index event
+        this.emit(Event.reconcile_index, report);
+
+        let missingNotes = this._missingNotes;
+        // undo of the index changes
+        let undos: (() => void)[] = [];
+
+        let steps: IOperationStep[] = renames.map((item: IReconcileItem) => {
+            return {
+                run: () => this._expectChanges(() => [item.pathname, item.expectedPathname],
+                    () => rename(item.pathname, item.expectedPathname)),
+                rollback: () => this._expectChanges(() => [item.pathname, item.expectedPathname],
+                    () => rename(item.expectedPathname, item.pathname)),
+            };
+        });
+        steps.push({
+            run: () => {
+                report.untrackedNotebooks.forEach((item) => {
+                    let parent = item.path.length ? this.getNotebook(item.path) : null;
+                    let siblings = parent ? parent.notebooks : this._notebooks;
+                    if (!siblings.has(item.name)) {
+                        siblings.set(item.name, new Notebook(item.name, parent, item.slug));
+                        undos.push(() => siblings.delete(item.name));
+                    }
+                });
+                report.untrackedNotes.forEach((item) => {
+                    let notebook = this.getNotebook(item.path);
+                    if (notebook && !notebook.notes.has(item.name)) {
+                        notebook.notes.set(item.name, new Note(item.name, notebook, item.slug));
+                        undos.push(() => notebook.notes.delete(item.name));
+                    }
+                });
+
+                if (dropMissing) {
+                    report.missingNotes.forEach((note) => {
+                        // unsaved note will be written back on saving
+                        if (!note.changed) {
+                            let notes = note.notebook.notes;
+                            notes.delete(note.name);
+                            undos.push(() => notes.set(note.name, note));
+                        }
+                    });
+                    this._missingNotes = new Set();
+                } else {
+                    this._missingNotes = new Set(report.missingNotes);
+                }
+                this._reportedItems = '';
+            },
+            rollback: () => {
+                undos.reverse().forEach((undo) => undo());
+                this._missingNotes = missingNotes;
+            },
+        });
+        steps.push({ run: () => this._save() });
+
+        return this._queue.run(steps).then(() => {
+            return this._loadNoteTimes();
+        }).then(() => {
+            this._buildIndexes();
+            this.emit(Event.reload);
+            this.emit(Event.index_reconciled, report);
         }).catch((e) => {
+            this.emit(Event.reconcile_index_failed, report);
+            ServiceLocator.alerter.fatal(`Cannot reconcile note index: ${e.message}`);
+        });
+    }
+
+    /**
+     * Import notes into the target notebook, missing notebooks are created. Notes whose name
+     * is taken are handled by the strategy, and the index is saved once all notes are written
+     */
+    importNotes(target: string[], notes: IImportNote[], strategy: ImportConflictStrategy): Promise<IImportSummary> {
+        if (!target.length) {
+            throw new Error('Empty target notebook');
+        } else if (Trash.isTrashDirname(target[0]) || isTemplatesDirname(target[0])) {
+            throw new Error(`Notebook name: ${target[0]} is reserved`);
+        } else if (!this._basedir) {
+            throw new Error('No note directory is setted');
+        }
+
+        let summary: IImportSummary = { imported: [], renamed: [], overwritten: [], skipped: [], attachments: 0 };
+        // undo of the index and file changes
+        let undos: (() => Promise<any> | void)[] = [];
+        let done = 0;
+
+        let getNotebook = (path: string[]): Notebook => {
+            let notebook: Notebook = null;
+            for (let name of path) {
+                let parent = notebook;
+                let siblings = parent ? parent.notebooks : this._notebooks;
+                notebook = siblings.get(name);
+                if (!notebook) {
+                    notebook = new Notebook(name, parent, uniqueSlug(name, getNotebookSlugs(siblings, parent)));
+                    siblings.set(name, notebook);
+                    undos.push(() => {
+                        siblings.delete(name);
+                    });
+                }
+            }
+            return notebook;
+        };
+
+        // emit import notes event
+        this.emit(Event.import_notes, notes.length);
+
+        let steps: IOperationStep[] = [{
+            run: () => {},
+            rollback: () => {
+                return undos.reverse().reduce((promise: Promise<any>, undo) => {
+                    return promise.then(() => undo()).catch((e) => ServiceLocator.logger.error(e));
+                }, Promise.resolve());
+            },
+        }];
+        notes.forEach((item) => {
+            steps.push({
+                run: () => {
+                    return this._importNote(getNotebook(target.concat(item.path)), item, strategy, summary, undos).then(() => {
+                        this.emit(Event.import_progress, ++done, notes.length);
+                    });
+                },
+            });
+        });
+        steps.push({ run: () => this._save() });
+
+        return this._queue.run(steps).then(() => {
+            return this._loadNoteTimes();
+        }).then(() => {
+            this._buildIndexes();
+            this.emit(Event.reload);
+            this.emit(Event.notes_imported, summary);
+            return summary;
+        }).catch((e) => {
+            this.emit(Event.import_notes_failed);
+            ServiceLocator.alerter.fatal(`Cannot import notes: ${e.message}`);
             throw e;
         });
     }
 
+    private _importNote(notebook: Notebook, item: IImportNote, strategy: ImportConflictStrategy,
+        summary: IImportSummary, undos: (() => Promise<any> | void)[]): Promise<void> {
+
+        let name = item.name;
+        let existing = notebook.notes.get(name);
+        let notePath = (noteName: string) => notebook.path.concat(noteName).join(NOTEBOOK_PATH_SEP);
+
+        // local changes are never dropped by importing, nor locked notes
+        if (existing && (strategy === 'skip' || (strategy === 'overwrite' && (existing.changed || existing.locked)))) {
+            summary.skipped.push(notePath(name));
+            return Promise.resolve();
+        } else if (existing && strategy === 'rename') {
+            for (let i = 2; notebook.notes.has(name); i++) {
+                name = `${item.name} (${i})`;
+            }
+            existing = null;
+        }
+
+        let savedFiles: string[] = [];
+        undos.push(() => Promise.all(savedFiles.map((pathname) => remove(pathname))));
+
+        return saveImportAttachments(notebook, item, savedFiles).then((content: string) => {
+            summary.attachments += item.attachments.length;
+
+            if (existing) {
+                let note = existing;
+                let oldContent = existsSync(note.filename) ? note.content : null;
+                return note.write(content).then(() => {
+                    this.reloadNote(note, content);
+                    summary.overwritten.push(notePath(name));
+                    undos.push(() => {
+                        if (oldContent === null) {
+                            return remove(note.filename);
+                        }
+                        return note.write(oldContent).then(() => this.reloadNote(note, oldContent));
+                    });
+                });
+            }
+
+            // file of an untracked note could take the slug, it's never overwritten
+            let takenSlugs = getSlugs(notebook.notes);
+            let findSlug = (): Promise<string> => {
+                let slug = uniqueSlug(name, takenSlugs);
+                return exists(`${notebook.pathname}${pathSep}${slug}.md`).then((occupied: boolean) => {
+                    if (!occupied) {
+                        return slug;
+                    }
+                    takenSlugs.push(slug);
+                    return findSlug();
+                });
+            };
+
+            return findSlug().then((slug: string) => {
+                let note = new Note(name, notebook, slug);
+                return this._expectChanges(() => [note.filename], () => note.write(content)).then(() => {
+                    notebook.notes.set(name, note);
+                    (name === item.name ? summary.imported : summary.renamed).push(notePath(name));
+                    undos.push(() => {
+                        notebook.notes.delete(name);
+                        return remove(note.filename);
+                    });
+                });
+            });
+        });
+    }
+
+    /**
+     * Get notebook by names from the top level notebook
+     */
+    getNotebook(path: string[]): Notebook {
+        let notebooks = this._notebooks;
+        let notebook: Notebook = null;
+
+        for (let name of path) {
+            notebook = notebooks.get(name);
+            if (!notebook) {
+                return null;
+            }
+            notebooks = notebook.notebooks;
+        }
+        return notebook;
+    }
+
+    /**
+     * All notebooks in depth-first order
+     */
+    walkNotebooks(): Notebook[] {
+        let result: Notebook[] = [];
+        let walk = (notebooks: Map<string, Notebook>) => {
+            for (let notebook of notebooks.values()) {
+                result.push(notebook);
+                walk(notebook.notebooks);
+            }
+        };
+
+        walk(this._notebooks);
+        return result;
+    }
+
+    private _getSiblings(notebook: Notebook): Map<string, Notebook> {
+        return notebook.parent ? notebook.parent.notebooks : this._notebooks;
+    }
+
+    /**
+     * Read times of the note files not read yet, they're needed before notes are sorted by time
+     */
+    private _loadNoteTimes(): Promise<void> {
+        let promises: Promise<void>[] = [];
+
+        for (let notebook of this.walkNotebooks()) {
+            for (let note of notebook.notes.values()) {
+                if (note.modifiedAt || this._missingNotes.has(note)) {
+                    continue;
+                }
+                promises.push(stat(note.filename).then((stats) => {
+                    note.createdAt = stats.birthtime;
+                    note.modifiedAt = stats.mtime;
+                }, (e) => {
+                    ServiceLocator.logger.error(e);
+                }));
+            }
+        }
+
+        return Promise.all(promises).then(() => {});
+    }
+
+    private _buildIndexes(): Promise<void> {
+        let searchIndex = this._searchIndex;
+        let tagIndex = this._tagIndex;
+        let linkIndex = this._linkIndex;
+        let promises: Promise<void>[] = [];
+
+        // notes of the last load are not indexed any more
+        this._indexUpdateTimers.forEach((timer) => clearTimeout(timer));
+        this._indexUpdateTimers.clear();
+        searchIndex.clear();
+        tagIndex.clear();
+        linkIndex.clear();
+        for (let notebook of this.walkNotebooks()) {
+            for (let note of notebook.notes.values()) {
+                if (this._missingNotes.has(note)) {
+                    continue;
+                }
+                promises.push(readFile(note.filename, { encoding: 'utf8' }).then((content: string) => {
+                    if (isEncryptedContent(content)) {
+                        // e.g. moved out of an encrypted notebook
+                        if (!note.isEncrypted) {
+                            note.encrypted = true;
+                        }
+                        // only names of locked notes could be found
+                        content = ServiceLocator.keyRing.unlocked ? ServiceLocator.keyRing.decrypt(content) : '';
+                    }
+
+                    searchIndex.add(note, content);
+                    tagIndex.add(note, content);
+                    linkIndex.add(note, content);
+                }, (e) => {
+                    ServiceLocator.logger.error(e);
+                }));
+            }
+        }
+
+        return Promise.all(promises).then(() => {
+            ServiceLocator.logger.info(`Indexed ${searchIndex.size} notes`);
+            this.emit(Event.tags_changed);
+            this.emit(Event.links_changed);
+        });
+    }
+
+    private _loadTrash(): Promise<void> {
+        let trash = this._trash;
+
+        return trash.load().then(() => {
+            return trash.purge(ServiceLocator.config.trash.purgeDays);
+        }).then((items: ITrashItem[]) => {
+            if (items.length) {
+                ServiceLocator.logger.info(`Purged ${items.length} items from trash`);
+            }
+            this.emit(Event.trash_changed);
+        }).catch((e) => {
+            ServiceLocator.logger.error(e);
+            ServiceLocator.alerter.warn(`Cannot load trash: ${e.message}`);
+        });
+    }
+
     private _getIndexFile(): string {
         let basedir = this._basedir;
 
@@ -223,6 +1243,35 @@ export class NoteManager extends EventEmitter {
         return `${basedir}${pathSep}.note-index.json`;
     }
 
+    /**
+     * Operations queued in the old library are done under its directory first, then open notes
+     * are closed and dropped before the notes of the new library are loaded
+     */
+    private _switchLibrary(name: string, oldName: string) {
+        this._queue.push(() => {
+            this._watcher.stop();
+            clearTimeout(this._indexCheckTimer);
+            for (let note of Array.from(this._indexUpdateTimers.keys())) {
+                this._cancelIndexUpdate(note);
+            }
+
+            // let views close the notes first
+            this.emit(Event.switch_library, name, oldName);
+            for (let notebook of this.walkNotebooks()) {
+                for (let note of notebook.notes.values()) {
+                    note.forget();
+                }
+            }
+
+            this._basedir = ServiceLocator.config.noteDir;
+            this._referenceUndo = null;
+            return this.load();
+        }).catch((e) => {
+            ServiceLocator.logger.error(e);
+            ServiceLocator.alerter.fatal(`Cannot open library: ${name}, ${e.message}`);
+        });
+    }
+
     private _move(newDir: string) {
         move(this._basedir, newDir).then(() => {
             this._basedir = newDir;
@@ -231,62 +1280,411 @@ export class NoteManager extends EventEmitter {
         });
     }
 
-    createNotebook(name: string): Notebook {
+    createNotebook(name: string, parent: Notebook = null): Notebook {
+        let siblings = parent ? parent.notebooks : this._notebooks;
+
         if (!name) {
             throw new Error('Empty notebook name');
-        } else if (this._notebooks.has(name)) {
+        } else if (name.indexOf(NOTEBOOK_PATH_SEP) !== -1) {
+            // separates the names in notebook paths and wiki links
+            throw new Error(`Notebook name: ${name} cannot contain ${NOTEBOOK_PATH_SEP}`);
+        } else if (!parent && (Trash.isTrashDirname(name) || isTemplatesDirname(name))) {
+            throw new Error(`Notebook name: ${name} is reserved`);
+        } else if (this._isNameTaken(siblings, name)) {
             throw new Error(`Notebook: ${name} already exists`);
         } else if (!this._basedir) {
             throw new Error('No note directory is setted');
         }
 
-        let notebook = new Notebook(name);
-        this._notebooks.set(name, notebook);
-
-        // emit create notebook event
-        this.emit(Event.create_notebook, notebook);
-
-        this._save().catch((e) => {
-            // TODO: do some clean work
+        let slug = this._reserveName(siblings, name, getNotebookSlugs(siblings, parent));
+        let notebook = new Notebook(name, parent, slug);
+
+        this._queue.run([
+            {
+                run: () => {
+                    siblings.set(name, notebook);
+                    // emit create notebook event
+                    this.emit(Event.create_notebook, notebook);
+                },
+                rollback: () => {
+                    siblings.delete(name);
+                },
+            },
+            { run: () => this._save() },
+        ]).then(() => {
+            this._releaseName(siblings, name, slug);
+            this.emit(Event.notebook_created, notebook);
+        }).catch((e) => {
+            this._releaseName(siblings, name, slug);
             this.emit(Event.create_notebook_failed, notebook);
-            ServiceLocator.alerter.fatal(`__Reload Needed!!!__ ${e.message}`);
+            ServiceLocator.alerter.fatal(`Cannot create notebook: ${name}, ${e.message}`);
         });
 
         return notebook;
     }
 
-    createNote(name: string, notebook: Notebook, fromOrphan: boolean = false): Note {
+    /**
+     * Create note in the notebook, the note starts with the template if given,
+     * content of the orphan note is put at the cursor marker of the template.
+     * The template is filled with the date if given, e.g. the day of a journal note
+     */
+    createNote(name: string, notebook: Notebook, fromOrphan: boolean = false, template: string = notebook.template,
+        date: moment.Moment = null): Note {
         if (!name) {
             throw new Error('Empty note name');
-        } else if (notebook.notes.has(name)) {
+        } else if (this._isNameTaken(notebook.notes, name)) {
             throw new Error(`Note: ${name} already exists`);
         }
 
-        let note;
-        if (fromOrphan) {
-            note = this._orphanNote;
-            note.notebook = notebook;
-            note.name = name;
-        } else {
-            note = new Note(name, notebook);
-            // if note is note exists on the disk, set content to empty
-            if (!existsSync(note.filename)) {
-                note.content = '';
+        let slug = this._reserveName(notebook.notes, name, getSlugs(notebook.notes));
+        let note = fromOrphan ? this.orphanNote : new Note(name, notebook, slug);
+        let templateContent: string = null;
+        let orphanContent: string = null;
+
+        this._queue.run([
+            {
+                run: () => {
+                    if (!template) {
+                        return;
+                    }
+                    return readTemplate(this.basedir, template).then((content: string) => {
+                        templateContent = content;
+                    }, (e) => {
+                        // note is still created without the template
+                        ServiceLocator.logger.error(e);
+                        ServiceLocator.alerter.warn(`Cannot read template: ${template}, ${e.message}`);
+                    });
+                },
+            },
+            {
+                run: () => {
+                    let isNew = !fromOrphan && !existsSync(note.filename);
+                    if (fromOrphan) {
+                        note.notebook = notebook;
+                        note.name = name;
+                        note.slug = slug;
+                    } else if (isNew) {
+                        // if note is note exists on the disk, set content to empty
+                        note.content = '';
+                    }
+
+                    if (templateContent !== null && (fromOrphan || isNew)) {
+                        let result = fillTemplate(templateContent, { title: name, notebook: notebook.name, date },
+                            fromOrphan ? note.content : '');
+
+                        orphanContent = fromOrphan ? note.content : null;
+                        note.content = result.content;
+                        note.cursorOffset = result.cursor;
+                    }
+                    notebook.notes.set(name, note);
+
+                    // emit create note event
+                    this.emit(Event.create_note, note);
+                },
+                rollback: () => {
+                    notebook.notes.delete(name);
+                    if (fromOrphan) {
+                        if (orphanContent !== null) {
+                            note.content = orphanContent;
+                            note.cursorOffset = -1;
+                        }
+                        note.detach();
+                    }
+                },
+            },
+            { run: () => this._save() },
+        ]).then(() => {
+            this._releaseName(notebook.notes, name, slug);
+            if (fromOrphan) {
+                // filed as a note, it's no longer a scratch
+                this._scratchpad.remove(note);
             }
+            this._scratchpad.useNotebook(notebook);
+            this.emit(Event.note_created, note);
+        }).catch((e) => {
+            this._releaseName(notebook.notes, name, slug);
+            this.emit(Event.create_note_failed, note);
+            ServiceLocator.alerter.fatal(`Cannot create note: ${name}, ${e.message}`);
+        });
+
+        return note;
+    }
+
+    private _isNameTaken(items: Map<string, Note | Notebook>, name: string): boolean {
+        let reservation = this._reservations.get(items);
+        return items.has(name) || (!!reservation && reservation.names.has(name));
+    }
+
+    /**
+     * Take the name and a unique slug for an item queued to be added into the items, so the items
+     * queued after it cannot take them before it's added
+     */
+    private _reserveName(items: Map<string, Note | Notebook>, name: string, takenSlugs: string[]): string {
+        let reservation = this._reservations.get(items);
+        if (!reservation) {
+            this._reservations.set(items, reservation = { names: new Set(), slugs: [] });
         }
 
-        notebook.notes.set(name, note);
+        let slug = uniqueSlug(name, takenSlugs.concat(reservation.slugs));
+        reservation.names.add(name);
+        reservation.slugs.push(slug);
+        return slug;
+    }
+
+    private _releaseName(items: Map<string, Note | Notebook>, name: string, slug: string) {
+        let reservation = this._reservations.get(items);
+        if (!reservation) {
+            return;
+        }
 
-        // emit create note event
-        this.emit(Event.create_note, note);
+        reservation.names.delete(name);
+        reservation.slugs.splice(reservation.slugs.indexOf(slug), 1);
+        if (!reservation.names.size) {
+            this._reservations.delete(items);
+        }
+    }
 
-        this._save().catch((e) => {
-            // TODO: do some clean work
-            this.emit(Event.create_note_failed, note);
-            ServiceLocator.alerter.fatal(`__Reload Needed!!!__ ${e.message}`);
+    /**
+     * Names of the templates in the note directory
+     */
+    getTemplates(): Promise<string[]> {
+        return listTemplates(this.basedir);
+    }
+
+    /**
+     * Set the template new notes of the notebook start with, null for empty notes
+     */
+    setNotebookTemplate(notebook: Notebook, template: string) {
+        let oldTemplate = notebook.template;
+        if (template === oldTemplate) {
+            return;
+        }
+
+        this._queue.run([
+            {
+                run: () => {
+                    notebook.template = template;
+                },
+                rollback: () => {
+                    notebook.template = oldTemplate;
+                },
+            },
+            { run: () => this._save() },
+        ]).catch((e) => {
+            ServiceLocator.alerter.fatal(`Cannot set template of notebook: ${notebook.name}, ${e.message}`);
         });
+    }
 
-        return note;
+    /**
+     * Sort notes of the notebook by name, time or by hand, notes arranged by hand start
+     * in the order they're listed in when there's no manual order yet
+     */
+    setSortMode(notebook: Notebook, sortMode: NoteSortMode) {
+        let oldSortMode = notebook.sortMode;
+        let oldOrder = notebook.noteOrder;
+        if (sortMode === oldSortMode) {
+            return;
+        }
+
+        this._queue.run([
+            {
+                run: () => {
+                    if (sortMode === 'manual' && !oldOrder.length) {
+                        notebook.noteOrder = sortNotes(notebook.notes.values(), notebook).map((note) => note.name);
+                    }
+                    notebook.sortMode = sortMode;
+                    this.emit(Event.sort_notes, notebook);
+                },
+                rollback: () => {
+                    notebook.sortMode = oldSortMode;
+                    notebook.noteOrder = oldOrder;
+                },
+            },
+            { run: () => this._save() },
+        ]).then(() => {
+            this.emit(Event.notes_sorted, notebook);
+        }).catch((e) => {
+            this.emit(Event.sort_notes_failed, notebook);
+            ServiceLocator.alerter.fatal(`Cannot sort notes of notebook: ${notebook.name}, ${e.message}`);
+        });
+    }
+
+    /**
+     * Move the note before another note of its notebook, or to the end if there's none,
+     * the notebook is sorted by hand from then on
+     */
+    arrangeNote(note: Note, before: Note = null) {
+        let notebook = note.notebook;
+        let oldSortMode = notebook.sortMode;
+        let oldOrder = notebook.noteOrder;
+
+        if (before && before.notebook !== notebook) {
+            throw new Error(`Note: ${before.name} is not in notebook: ${notebook.name}`);
+        }
+        if (before === note) {
+            return;
+        }
+
+        this._queue.run([
+            {
+                run: () => {
+                    let names = sortNotes(notebook.notes.values(), notebook).map((item) => item.name)
+                        .filter((name) => name !== note.name);
+                    let index = before ? names.indexOf(before.name) : names.length;
+
+                    names.splice(index, 0, note.name);
+                    notebook.noteOrder = names;
+                    notebook.sortMode = 'manual';
+                    this.emit(Event.sort_notes, notebook);
+                },
+                rollback: () => {
+                    notebook.sortMode = oldSortMode;
+                    notebook.noteOrder = oldOrder;
+                },
+            },
+            { run: () => this._save() },
+        ]).then(() => {
+            this.emit(Event.notes_sorted, notebook);
+        }).catch((e) => {
+            this.emit(Event.sort_notes_failed, notebook);
+            ServiceLocator.alerter.fatal(`Cannot move note: ${note.name}, ${e.message}`);
+        });
+    }
+
+    /**
+     * Pin the note to the favorites or unpin it, it's kept in the index so favorites sync with notes
+     */
+    setFavorite(note: Note, favorite: boolean) {
+        if (note.favorite === favorite) {
+            return;
+        }
+
+        this._queue.run([
+            {
+                run: () => {
+                    note.favorite = favorite;
+                    this.emit(Event.set_favorite, note, favorite);
+                },
+                rollback: () => {
+                    note.favorite = !favorite;
+                },
+            },
+            { run: () => this._save() },
+        ]).then(() => {
+            this.emit(Event.favorite_set, note, favorite);
+        }).catch((e) => {
+            this.emit(Event.set_favorite_failed, note, favorite);
+            ServiceLocator.alerter.fatal(`Cannot ${favorite ? 'pin' : 'unpin'} note: ${note.name}, ${e.message}`);
+        });
+    }
+
+    /**
+     * Encrypt the note or notes of the notebook, or store them in plain text again.
+     * Notes stay encrypted while they or one of their notebooks are set to be encrypted
+     */
+    setEncrypted(item: Note | Notebook, encrypted: boolean): Promise<void> {
+        if (!ServiceLocator.keyRing.unlocked) {
+            throw new Error('Unlock encrypted notes first');
+        } else if (item.encrypted === encrypted) {
+            return Promise.resolve();
+        }
+
+        let notes = (item instanceof Notebook ? item.allNotes : [item as Note]).filter((note) => !this._missingNotes.has(note));
+        let oldStates = new Map<Note, boolean>(notes.map((note) => [note, note.isEncrypted] as [Note, boolean]));
+        let rewritten: Note[] = [];
+
+        this.emit(Event.set_encryption, item, encrypted);
+
+        return this._queue.run([
+            {
+                run: () => {
+                    item.encrypted = encrypted;
+                },
+                rollback: () => {
+                    item.encrypted = !encrypted;
+                    return Promise.all(rewritten.map((note) => note.rewrite()));
+                },
+            },
+            {
+                run: () => {
+                    let promise: Promise<any> = Promise.resolve();
+                    notes.filter((note) => note.isEncrypted !== oldStates.get(note)).forEach((note) => {
+                        promise = promise.then(() => note.rewrite()).then(() => {
+                            rewritten.push(note);
+                        });
+                    });
+                    return promise;
+                },
+            },
+            { run: () => this._save() },
+        ]).then(() => {
+            this.emit(Event.encryption_set, item, encrypted);
+        }).catch((e) => {
+            this.emit(Event.set_encryption_failed, item, encrypted);
+            ServiceLocator.alerter.fatal(`Cannot ${encrypted ? 'encrypt' : 'decrypt'}: _${item.name}_, ${e.message}`);
+        });
+    }
+
+    /**
+     * Unlock encrypted notes, the passphrase is set if there's none yet
+     */
+    unlockNotes(passphrase: string): Promise<void> {
+        let keyRing = ServiceLocator.keyRing;
+        let isNew = !keyRing.hasPassphrase;
+
+        return keyRing.unlock(passphrase).then(() => {
+            if (isNew) {
+                return this._queue.run([{ run: () => this._save() }]);
+            }
+        }).then(() => {
+            for (let note of this._getEncryptedNotes()) {
+                this.updateIndexes(note, this._readContent(note));
+            }
+            this.emit(Event.notes_unlocked);
+        });
+    }
+
+    /**
+     * Save encrypted notes and forget their decrypted contents
+     */
+    lockNotes(): Promise<void> {
+        let keyRing = ServiceLocator.keyRing;
+        if (!keyRing.unlocked) {
+            return Promise.resolve();
+        }
+
+        let notes = this._getEncryptedNotes();
+        // let views close the notes first
+        this.emit(Event.lock_notes, notes);
+
+        // notes failing to be saved keep their decrypted changes, so notes stay unlocked
+        let failures = 0;
+        return Promise.all(notes.map((note) => note.save().catch(() => {
+            failures++;
+        }))).then(() => {
+            if (failures) {
+                throw new Error(`Cannot lock encrypted notes, ${failures} notes are not saved`);
+            }
+
+            keyRing.lock();
+            notes.forEach((note) => {
+                note.forget();
+                this.updateIndexes(note, '');
+            });
+            this.emit(Event.notes_locked);
+        });
+    }
+
+    private _getEncryptedNotes(): Note[] {
+        let notes: Note[] = [];
+        for (let notebook of this.walkNotebooks()) {
+            for (let note of notebook.notes.values()) {
+                if (note.isEncrypted && !this._missingNotes.has(note)) {
+                    notes.push(note);
+                }
+            }
+        }
+        return notes;
     }
 
     renameNotebook(newName: string, notebook: Notebook): Notebook {
@@ -295,23 +1693,72 @@ export class NoteManager extends EventEmitter {
         }
 
         let oldName = notebook.name;
-        let notebooks = this._notebooks;
+        let oldSlug = notebook.slug;
+        let notebooks = this._getSiblings(notebook);
 
-        notebook.rename(newName).then(() => {
-            return this._save();
-        }).then(() => {
+        if (newName.indexOf(NOTEBOOK_PATH_SEP) !== -1) {
+            throw new Error(`Notebook name: ${newName} cannot contain ${NOTEBOOK_PATH_SEP}`);
+        } else if (this._isNameTaken(notebooks, newName)) {
+            throw new Error(`Notebook: ${newName} already exists`);
+        }
+
+        // the slug is kept if it's still the one of the new name, e.g. only the case changes
+        let otherSlugs = getNotebookSlugs(notebooks, notebook.parent).filter((slug) => slug !== oldSlug);
+        let reservedSlug = this._reserveName(notebooks, newName, otherSlugs);
+        let newSlug = convertName(newName) === convertName(oldName) ? oldSlug : reservedSlug;
+        let references: IReferenceUpdate;
+
+        this._queue.run([
+            {
+                run: () => {
+                    let path = notebook.path;
+                    let oldDirname = notebook.pathname;
+                    let moves = newSlug === oldSlug ? [] : [{
+                        from: oldDirname,
+                        to: `${oldDirname.substr(0, oldDirname.length - oldSlug.length)}${newSlug}`,
+                    }];
+
+                    // wiki links whose path goes through the notebook
+                    return this._findReferences(`Rename notebook: ${oldName} → ${newName}`, moves,
+                        (note: Note) => movePath(note.notebook.pathname, moves),
+                        (link: IWikiLink) => path.every((name, i) => link.path[i] === name),
+                        (link: IWikiLink) => {
+                            let newPath = link.path.slice();
+                            newPath[path.length - 1] = newName;
+                            return Object.assign({}, link, { path: newPath });
+                        }).then((update: IReferenceUpdate) => {
+                            references = update;
+                        });
+                },
+            },
+            {
+                run: () => this._expectChanges(() => [notebook.pathname], () => notebook.rename(newName, newSlug)),
+                rollback: () => this._expectChanges(() => [notebook.pathname], () => notebook.rename(oldName, oldSlug)),
+            },
+            {
+                run: () => {
+                    notebooks.set(newName, notebook);
+                    notebooks.delete(oldName);
+
+                    // emit rename notebook event
+                    this.emit(Event.rename_notebook, notebook);
+                },
+                rollback: () => {
+                    notebooks.set(oldName, notebook);
+                    notebooks.delete(newName);
+                },
+            },
+            { run: () => this._save() },
+        ]).then(() => {
+            this._releaseName(notebooks, newName, reservedSlug);
             this.emit(Event.notebook_renamed, notebook);
+            this._reportReferences(references);
         }).catch((e) => {
-            // TODO: do some clean work
+            this._releaseName(notebooks, newName, reservedSlug);
             this.emit(Event.rename_notebook_failed, oldName, notebook);
-            ServiceLocator.alerter.fatal(`__Restore Manually Needed!!!__ ${e.message}`);
+            ServiceLocator.alerter.fatal(`Cannot rename notebook: ${oldName}, ${e.message}`);
         });
 
-        notebooks.set(newName, notebook);
-        notebooks.delete(oldName);
-
-        // emit rename notebook event
-        this.emit(Event.rename_notebook, notebook);
         return notebook;
     }
 
@@ -321,56 +1768,661 @@ export class NoteManager extends EventEmitter {
         }
 
         let oldName = note.name;
+        let oldSlug = note.slug;
         let notes = note.notebook.notes;
 
-        note.rename(newName).then(() => {
-            return this._save();
-        }).then(() => {
+        if (newName !== oldName && this._isNameTaken(notes, newName)) {
+            throw new Error(`Note: ${newName} already exists`);
+        }
+
+        // the slug is kept if it's still the one of the new name, e.g. only the case changes
+        let otherSlugs = getSlugs(notes).filter((slug) => slug !== oldSlug);
+        let reservedSlug = this._reserveName(notes, newName, otherSlugs);
+        let newSlug = convertName(newName) === convertName(oldName) ? oldSlug : reservedSlug;
+        let references: IReferenceUpdate;
+        let noteOrder = note.notebook.noteOrder;
+
+        this._queue.run([
+            {
+                run: () => {
+                    let moves = newSlug === oldSlug ? [] : [{
+                        from: note.filename,
+                        to: `${note.notebook.pathname}${pathSep}${newSlug}.md`,
+                    }];
+
+                    return this._findReferences(`Rename note: ${oldName} → ${newName}`, moves,
+                        (from: Note) => from.notebook.pathname,
+                        (link: IWikiLink, from: Note) => this.resolveWikiLink(link, from) === note,
+                        (link: IWikiLink) => Object.assign({}, link, { name: newName })).then((update: IReferenceUpdate) => {
+                            references = update;
+                        });
+                },
+            },
+            {
+                run: () => this._expectChanges(() => [note.filename], () => note.rename(newName, newSlug)),
+                rollback: () => this._expectChanges(() => [note.filename], () => note.rename(oldName, oldSlug)),
+            },
+            {
+                run: () => {
+                    notes.set(newName, note);
+                    notes.delete(oldName);
+                    // keep the note where it's arranged
+                    note.notebook.noteOrder = noteOrder.map((name) => name === oldName ? newName : name);
+
+                    // emit rename note event
+                    this.emit(Event.rename_note, note);
+                },
+                rollback: () => {
+                    notes.set(oldName, note);
+                    notes.delete(newName);
+                    note.notebook.noteOrder = noteOrder;
+                },
+            },
+            { run: () => this._save() },
+        ]).then(() => {
+            this._releaseName(notes, newName, reservedSlug);
             this.emit(Event.note_renamed, note);
+            this._reportReferences(references);
         }).catch((e) => {
-            // TODO: do some clean work
+            this._releaseName(notes, newName, reservedSlug);
             this.emit(Event.rename_note_failed, newName, note);
-            ServiceLocator.alerter.fatal(`__Restore Manually Needed!!!__ ${e.message}`);
+            ServiceLocator.alerter.fatal(`Cannot rename note: _${oldName}_, ${e.message}`);
         });
 
-        notes.set(newName, note);
-        notes.delete(oldName);
+        return note;
+    }
+
+    moveNote(note: Note, targetNotebook: Notebook): Note {
+        let notebook = note.notebook;
+
+        if (note.changed) {
+            throw new Error(`Cannot move unsaved note: _${note.name}_`);
+        } else if (notebook === targetNotebook) {
+            throw new Error(`Note: ${note.name} is already in notebook: ${targetNotebook.name}`);
+        } else if (this._isNameTaken(targetNotebook.notes, note.name)) {
+            throw new Error(`Note: ${note.name} already exists in notebook: ${targetNotebook.name}`);
+        } else if (note.locked) {
+            throw new Error(`Cannot move locked note: _${note.name}_, unlock encrypted notes first`);
+        }
+
+        let oldSlug = note.slug;
+        let oldEncrypted = note.encrypted;
+        // note of an encrypted notebook stays encrypted
+        let encrypted = note.isEncrypted;
+        let name = note.name;
+        let newSlug = this._reserveName(targetNotebook.notes, name, getSlugs(targetNotebook.notes));
+        let transfer: IAttachmentTransfer = { items: [], oldContent: null };
+        let references: IReferenceUpdate;
+        let noteOrder = notebook.noteOrder;
+        let targetNoteOrder = targetNotebook.noteOrder;
+
+        this._queue.run([
+            {
+                run: () => {
+                    let fileMove = { from: note.filename, to: `${targetNotebook.pathname}${pathSep}${newSlug}.md` };
+                    // attachments of the note are moved along with it, see _transferAttachments
+                    let assetsMove = { from: getAssetsDirname(notebook), to: getAssetsDirname(targetNotebook) };
+
+                    return this._findReferences(`Move note: ${note.name} → ${targetNotebook.name}`,
+                        (from: Note) => from === note ? [fileMove, assetsMove] : [fileMove],
+                        (from: Note) => from === note ? targetNotebook.pathname : from.notebook.pathname,
+                        (link: IWikiLink, from: Note) => link.path.length > 0 && this.resolveWikiLink(link, from) === note,
+                        (link: IWikiLink) => Object.assign({}, link, { path: targetNotebook.path })).then((update: IReferenceUpdate) => {
+                            references = update;
+                        });
+                },
+            },
+            {
+                run: () => this._expectChanges(() => [note.filename], () => note.move(targetNotebook, newSlug)),
+                rollback: () => this._expectChanges(() => [note.filename], () => note.move(notebook, oldSlug)),
+            },
+            {
+                run: () => {
+                    targetNotebook.notes.set(note.name, note);
+                    notebook.notes.delete(note.name);
+                    note.encrypted = oldEncrypted || (encrypted && !targetNotebook.isEncrypted);
+                    // the note follows the arranged notes of the target, like a new note
+                    notebook.noteOrder = noteOrder.filter((name) => name !== note.name);
+                    targetNotebook.noteOrder = targetNoteOrder.filter((name) => name !== note.name);
+
+                    // emit move note event
+                    this.emit(Event.move_note, note, notebook);
+                },
+                rollback: () => {
+                    notebook.notes.set(note.name, note);
+                    targetNotebook.notes.delete(note.name);
+                    note.encrypted = oldEncrypted;
+                    notebook.noteOrder = noteOrder;
+                    targetNotebook.noteOrder = targetNoteOrder;
+                },
+            },
+            {
+                run: () => this._transferAttachments(note, notebook, targetNotebook, transfer),
+                rollback: () => this._revertAttachments(note, notebook, targetNotebook, transfer),
+            },
+            { run: () => this._save() },
+        ]).then(() => {
+            this._releaseName(targetNotebook.notes, name, newSlug);
+            this.emit(Event.note_moved, note, notebook);
+            this._reportReferences(references);
+        }).catch((e) => {
+            this._releaseName(targetNotebook.notes, name, newSlug);
+            this.emit(Event.move_note_failed, note, notebook);
+            ServiceLocator.alerter.fatal(`Cannot move note: _${note.name}_, ${e.message}`);
+        });
 
-        // emit rename note event
-        this.emit(Event.rename_note, note);
         return note;
     }
 
     deleteNotebook(notebook: Notebook) {
+        let siblings = this._getSiblings(notebook);
+        let parentPath = notebook.parent ? notebook.parent.path : [];
+        let trashItem: ITrashItem;
+
         // emit delete notebook event
         this.emit(Event.delete_notebook, notebook);
 
-        remove(notebook.pathname).then(() => {
-            notebook.notes.clear();
-            this._notebooks.delete(notebook.name);
-            return this._save();
-        }).then(() => {
+        this._queue.run([
+            {
+                run: () => {
+                    return this._trash.put(notebook.pathname, 'notebook', notebook.name, parentPath, dumpNotebook(notebook))
+                        .then((item: ITrashItem) => {
+                            trashItem = item;
+                        });
+                },
+                rollback: () => this._expectChanges(() => [notebook.pathname],
+                    () => this._trash.restore(trashItem, notebook.pathname)),
+            },
+            {
+                run: () => {
+                    siblings.delete(notebook.name);
+                },
+                rollback: () => {
+                    siblings.set(notebook.name, notebook);
+                },
+            },
+            { run: () => this._save() },
+        ]).then(() => {
             this.emit(Event.notebook_deleted, notebook);
+            this.emit(Event.trash_changed);
         }).catch((e) => {
-            // TODO: do some clean work
             this.emit(Event.delete_notebook_failed, notebook);
-            ServiceLocator.alerter.fatal(`__Restore Manually Needed!!!__ ${e.message}`);
+            ServiceLocator.alerter.fatal(`Cannot delete notebook: ${notebook.name}, ${e.message}`);
         });
     }
 
     deleteNote(note: Note) {
+        let notes = note.notebook.notes;
+        let noteOrder = note.notebook.noteOrder;
+        let trashItem: ITrashItem;
+
         // emit delete note event
         this.emit(Event.delete_note, note);
 
-        remove(note.filename).then(() => {
-            note.notebook.notes.delete(note.name);
-            return this._save();
-        }).then(() => {
+        this._queue.run([
+            {
+                run: () => {
+                    // attachments still linked by other notes are kept
+                    let linked = this._getLinkedAttachments(note.notebook, note);
+                    let attachments = findAttachments(this._readContent(note)).filter((name) => !linked.has(name))
+                        .map((name) => `${getAssetsDirname(note.notebook)}${pathSep}${name}`);
+
+                    return Promise.all(attachments.map((attachment) => exists(attachment))).then((found: boolean[]) => {
+                        attachments = attachments.filter((attachment, i) => found[i]);
+                        return this._trash.put(note.filename, 'note', note.name, note.notebook.path, null, attachments);
+                    }).then((item: ITrashItem) => {
+                        trashItem = item;
+                    });
+                },
+                rollback: () => this._expectChanges(() => [note.filename],
+                    () => this._trash.restore(trashItem, note.filename)),
+            },
+            {
+                run: () => {
+                    notes.delete(note.name);
+                    note.notebook.noteOrder = noteOrder.filter((name) => name !== note.name);
+                },
+                rollback: () => {
+                    notes.set(note.name, note);
+                    note.notebook.noteOrder = noteOrder;
+                },
+            },
+            { run: () => this._save() },
+        ]).then(() => {
             this.emit(Event.note_deleted, note);
+            this.emit(Event.trash_changed);
         }).catch((e) => {
-            // TODO: do some clean work
             this.emit(Event.delete_note_failed, note);
-            ServiceLocator.alerter.fatal(`__Restore Manually Needed!!!__ ${e.message}`);
+            ServiceLocator.alerter.fatal(`Cannot delete note: _${note.name}_, ${e.message}`);
+        });
+    }
+
+    /**
+     * Notes referencing paths which are going to be moved, run before the move.
+     * Wiki links accepted by isTarget are rewritten by retarget
+     */
+    private _findReferences(title: string,
+        moves: IPathMove[] | ((note: Note) => IPathMove[]),
+        getNewDir: (note: Note) => string,
+        isTarget: (link: IWikiLink, from: Note) => boolean,
+        retarget: (link: IWikiLink) => IWikiLink): Promise<IReferenceUpdate> {
+
+        let update: IReferenceUpdate = { title, changes: [], skipped: [] };
+        let notes: Note[] = [];
+        for (let notebook of this.walkNotebooks()) {
+            notes = notes.concat(Array.from(notebook.notes.values()));
+        }
+
+        // any note could have relative links to the moved files, contents are read without blocking
+        return Promise.all(notes.map((note) => this._readContentAsync(note))).then((contents: string[]) => {
+            notes.forEach((note, i) => {
+                let content = contents[i];
+                let oldDir = note.notebook.pathname;
+                let newDir = getNewDir(note);
+                let noteMoves = typeof moves === 'function' ? moves(note) : moves;
+                // targets are resolved now, they may not be resolved the same after the move,
+                // wiki links are taken from the link index unless the note is not indexed yet
+                let links = this._linkIndex.getWikiLinks(note) || extractWikiLinks(content);
+                let targets = new Set(links.filter((link) => isTarget(link, note)).map(formatWikiLink));
+
+                let rewrite = (content: string, links?: IReferenceLink[]) => {
+                    return rewriteReferences(content, oldDir, newDir, noteMoves, (link: IWikiLink) => {
+                        return targets.has(formatWikiLink(link)) ? retarget(link) : null;
+                    }, links);
+                };
+
+                let referenceLinks: IReferenceLink[] = [];
+                if (rewrite(content, referenceLinks) === content) {
+                    return;
+                }
+
+                if (note.changed) {
+                    update.skipped.push(note);
+                } else {
+                    update.changes.push({ note, links: referenceLinks, rewrite: (content: string) => rewrite(content) });
+                }
+            });
+            return update;
+        });
+    }
+
+    private _reportReferences(update: IReferenceUpdate) {
+        if (update && (update.changes.length || update.skipped.length)) {
+            this.emit(Event.references_found, update);
+        }
+    }
+
+    /**
+     * Rewrite references of the update and save the notes, the update could be undone later
+     */
+    updateReferences(update: IReferenceUpdate) {
+        let undo: IReferenceUndo = { title: update.title, items: [] };
+
+        // emit update references event
+        this.emit(Event.update_references, update);
+
+        this._queue.run(update.changes.map((change): IOperationStep => {
+            let note = change.note;
+            let oldContent: string = null;
+
+            return {
+                run: () => {
+                    // deleted or changed since the references are found
+                    if (!note.notebook || note.changed || this._missingNotes.has(note)) {
+                        return;
+                    }
+
+                    let content = note.content;
+                    let newContent = change.rewrite(content);
+                    if (newContent === content) {
+                        return;
+                    }
+
+                    // written before the note takes it, a failed write leaves the note as it was
+                    return note.write(newContent).then(() => {
+                        oldContent = content;
+                        this.reloadNote(note, newContent);
+                        undo.items.push({ note, oldContent, newContent });
+                    });
+                },
+                rollback: () => {
+                    if (oldContent !== null) {
+                        return note.write(oldContent).then(() => this.reloadNote(note, oldContent));
+                    }
+                },
+            };
+        })).then(() => {
+            this._referenceUndo = undo.items.length ? undo : this._referenceUndo;
+            this.emit(Event.references_updated, update, undo.items.length);
+        }).catch((e) => {
+            this.emit(Event.update_references_failed, update);
+            ServiceLocator.alerter.fatal(`Cannot update references: ${e.message}`);
+        });
+    }
+
+    get canUndoReferenceUpdate(): boolean {
+        return this._referenceUndo !== null;
+    }
+
+    /**
+     * Restore notes changed by the last update of references, notes changed since then are kept
+     */
+    undoReferenceUpdate(): Promise<number> {
+        let undo = this._referenceUndo;
+        if (!undo) {
+            throw new Error('No reference update to undo');
+        }
+
+        this._referenceUndo = null;
+
+        let restored = 0;
+        return this._queue.run(undo.items.map((item): IOperationStep => {
+            let note = item.note;
+            let done = false;
+
+            return {
+                run: () => {
+                    if (!note.notebook || note.changed || this._missingNotes.has(note) || note.content !== item.newContent) {
+                        return;
+                    }
+
+                    return note.write(item.oldContent).then(() => {
+                        done = true;
+                        restored++;
+                        this.reloadNote(note, item.oldContent);
+                    });
+                },
+                rollback: () => {
+                    if (done) {
+                        restored--;
+                        return note.write(item.newContent).then(() => this.reloadNote(note, item.newContent));
+                    }
+                },
+            };
+        })).then(() => restored, (e) => {
+            this._referenceUndo = undo;
+            throw e;
+        });
+    }
+
+    /**
+     * Content of the note like _readContent, the file is read asynchronously unless it's read already
+     */
+    private _readContentAsync(note: Note): Promise<string> {
+        if (this._missingNotes.has(note) || note.editorModel || typeof note.savedContent === 'string') {
+            return Promise.resolve(this._readContent(note));
+        }
+
+        return readFile(note.filename, { encoding: 'utf8' }).then((content: string) => {
+            if (!isEncryptedContent(content)) {
+                return content;
+            }
+            // links of locked notes cannot be found
+            return ServiceLocator.keyRing.unlocked ? ServiceLocator.keyRing.decrypt(content) : '';
+        }).catch((e) => {
+            ServiceLocator.logger.error(e);
+            return '';
+        });
+    }
+
+    /**
+     * Content of the note, empty if its file is missing
+     */
+    private _readContent(note: Note): string {
+        if (this._missingNotes.has(note)) {
+            return '';
+        }
+
+        try {
+            return note.content;
+        } catch (e) {
+            ServiceLocator.logger.error(e);
+            return '';
+        }
+    }
+
+    /**
+     * Names of the attachments linked by notes of the notebook
+     */
+    private _getLinkedAttachments(notebook: Notebook, exclude: Note = null): Set<string> {
+        let names = new Set<string>();
+        for (let note of notebook.notes.values()) {
+            if (note !== exclude) {
+                findAttachments(this._readContent(note)).forEach((name) => names.add(name));
+            }
+        }
+        return names;
+    }
+
+    /**
+     * Move attachments linked by the note into assets of the target notebook, attachments still
+     * linked by other notes are copied. Links are updated if the file name is taken in the target
+     */
+    private _transferAttachments(note: Note, from: Notebook, to: Notebook, transfer: IAttachmentTransfer): Promise<void> {
+        let content = this._readContent(note);
+        let linked = this._getLinkedAttachments(from, note);
+        let promise: Promise<any> = Promise.resolve();
+
+        findAttachments(content).forEach((name) => {
+            let copied = linked.has(name);
+            promise = promise.then(() => transferAttachment(from, to, name, copied)).then((newName: string) => {
+                // not found in the source notebook
+                if (newName) {
+                    transfer.items.push({ name, newName, copied });
+                }
+            });
+        });
+
+        return promise.then(() => {
+            let newContent = transfer.items.reduce((result, item) => {
+                return item.newName === item.name ? result : replaceAttachment(result, item.name, item.newName);
+            }, content);
+            if (newContent === content) {
+                return;
+            }
+
+            return note.write(newContent).then(() => {
+                transfer.oldContent = content;
+                this.reloadNote(note, newContent);
+            });
+        });
+    }
+
+    private _revertAttachments(note: Note, from: Notebook, to: Notebook, transfer: IAttachmentTransfer): Promise<void> {
+        let oldContent = transfer.oldContent;
+        let promise: Promise<any> = oldContent === null ? Promise.resolve() : note.write(oldContent).then(() => {
+            this.reloadNote(note, oldContent);
+        });
+
+        transfer.items.forEach((item) => {
+            let target = `${getAssetsDirname(to)}${pathSep}${item.newName}`;
+            let source = `${getAssetsDirname(from)}${pathSep}${item.name}`;
+            promise = promise.then(() => item.copied ? remove(target) : move(target, source));
+        });
+
+        return promise.then(() => {});
+    }
+
+    /**
+     * Attachments in assets directories which are not linked by any note
+     */
+    findUnusedAttachments(): Promise<string[]> {
+        return Promise.all(this.walkNotebooks().map((notebook) => {
+            let linked = this._getLinkedAttachments(notebook);
+            return listAttachments(notebook).then((names: string[]) => {
+                return names.filter((name) => !linked.has(name)).map((name) => {
+                    return `${getAssetsDirname(notebook)}${pathSep}${name}`;
+                });
+            });
+        })).then((results: string[][]) => {
+            return [].concat(...results);
+        });
+    }
+
+    /**
+     * Delete attachments permanently
+     */
+    removeAttachments(pathnames: string[]): Promise<void> {
+        return Promise.all(pathnames.map((pathname) => remove(pathname))).then(() => {});
+    }
+
+    /**
+     * Move trash item back to where it was, missing parent notebooks are recreated
+     */
+    restoreTrashItem(item: ITrashItem): Promise<void> {
+        let parent: Notebook = null;
+        let siblings = this._notebooks;
+        let pathname: string;
+
+        // check conflicts before recreating parent notebooks
+        let existing = item.path.length ? this.getNotebook(item.path) : null;
+        let subNotebooks = item.path.length ? (existing && existing.notebooks) : this._notebooks;
+        if (item.type === 'note' && existing && this._isNameTaken(existing.notes, item.name)) {
+            throw new Error(`Note: ${item.name} already exists`);
+        } else if (item.type === 'notebook' && subNotebooks && this._isNameTaken(subNotebooks, item.name)) {
+            throw new Error(`Notebook: ${item.name} already exists`);
+        }
+
+        for (let name of item.path) {
+            parent = siblings.get(name) || this.createNotebook(name, parent);
+            siblings = parent.notebooks;
+        }
+
+        // the restored file keeps the slug, creations queued meanwhile cannot take it
+        let items: Map<string, Note | Notebook> = item.type === 'note' ? parent.notes : siblings;
+        let slug = this._reserveName(items, item.name,
+            item.type === 'note' ? getSlugs(parent.notes) : getNotebookSlugs(siblings, parent));
+
+        let note: Note = null;
+        let notebook: Notebook = null;
+        if (item.type === 'note') {
+            note = new Note(item.name, parent, slug);
+            pathname = note.filename;
+        } else {
+            notebook = loadNotebook(item.index || { name: item.name, notes: [], notebooks: [] }, parent, slug);
+            pathname = notebook.pathname;
+        }
+
+        // emit restore trash item event
+        this.emit(Event.restore_trash_item, item);
+
+        let steps: IOperationStep[] = [{
+            run: () => this._expectChanges(() => [pathname], () => this._trash.restore(item, pathname)),
+            rollback: () => this._expectChanges(() => [pathname],
+                () => this._trash.put(pathname, item.type, item.name, item.path, item.index)),
+        }];
+        if (note) {
+            steps.push({
+                run: () => {
+                    parent.notes.set(note.name, note);
+                    this.emit(Event.create_note, note);
+                },
+                rollback: () => {
+                    parent.notes.delete(note.name);
+                },
+            });
+        } else {
+            steps.push({
+                run: () => {
+                    siblings.set(notebook.name, notebook);
+                    this.emit(Event.create_notebook, notebook);
+                },
+                rollback: () => {
+                    siblings.delete(notebook.name);
+                },
+            });
+        }
+        steps.push({ run: () => this._save() });
+
+        return this._queue.run(steps).then(() => {
+            this._releaseName(items, item.name, slug);
+            if (note) {
+                this.emit(Event.note_created, note);
+            } else {
+                for (let restored of notebook.allNotes) {
+                    this.updateIndexes(restored);
+                }
+                this.emit(Event.notebook_created, notebook);
+            }
+
+            this.emit(Event.trash_item_restored, item);
+            this.emit(Event.trash_changed);
+        }).catch((e) => {
+            this._releaseName(items, item.name, slug);
+            if (note) {
+                this.emit(Event.create_note_failed, note);
+            } else {
+                this.emit(Event.create_notebook_failed, notebook);
+            }
+            this.emit(Event.restore_trash_item_failed, item);
+            ServiceLocator.alerter.fatal(e.message);
+        });
+    }
+
+    /**
+     * Delete trash item permanently
+     */
+    deleteTrashItem(item: ITrashItem): Promise<void> {
+        return this._trash.remove(item).then(() => {
+            this.emit(Event.trash_changed);
+        }).catch((e) => {
+            ServiceLocator.alerter.fatal(e.message);
+        });
+    }
+
+    emptyTrash(): Promise<void> {
+        return this._trash.empty().then(() => {
+            this.emit(Event.trash_changed);
+        }).catch((e) => {
+            ServiceLocator.alerter.fatal(e.message);
+        });
+    }
+
+    /**
+     * Replace the tag in all notes carrying it, notes already rewritten are restored if any fails
+     */
+    renameTag(oldTag: string, newTag: string): Promise<void> {
+        if (!isValidTag(newTag)) {
+            return Promise.reject(new Error(`Invalid tag: ${newTag}`));
+        }
+
+        let checkSaved = (note: Note) => {
+            if (note.changed) {
+                throw new Error(`Cannot rename tag: ${oldTag} cause note: _${note.name}_ is unsaved`);
+            }
+        };
+        let notes = this._tagIndex.getNotes(oldTag);
+        try {
+            notes.forEach(checkSaved);
+        } catch (e) {
+            return Promise.reject(e);
+        }
+
+        // emit rename tag event
+        this.emit(Event.rename_tag, oldTag, newTag);
+
+        return this._queue.run(notes.map((note): IOperationStep => {
+            let oldContent: string = null;
+            return {
+                run: () => {
+                    // could be edited while waiting in the queue
+                    checkSaved(note);
+                    let content = note.content;
+                    let newContent = replaceTag(content, oldTag, newTag);
+                    return note.write(newContent).then(() => {
+                        oldContent = content;
+                        this.reloadNote(note, newContent);
+                    });
+                },
+                rollback: () => {
+                    return note.write(oldContent).then(() => this.reloadNote(note, oldContent));
+                },
+            };
+        })).then(() => {
+            this.emit(Event.tag_renamed, oldTag, newTag);
+        }).catch((e) => {
+            this.emit(Event.rename_tag_failed, oldTag, newTag);
+            throw new Error(`Cannot rename tag: ${oldTag}, ${e.message}`);
         });
     }
 
@@ -383,27 +2435,27 @@ export class NoteManager extends EventEmitter {
             });
         }
 
-        let promise = new Promise<NoteIndex>((resolve, reject) => {
-            let raw: NoteIndex = {};
-            let notebooks = this._notebooks;
-            for (let notebook of notebooks.values()) {
-                let notes: string[] = [];
-                for (let noteName of notebook.notes.keys()) {
-                    notes.push(noteName);
-                }
-                raw[notebook.name] = notes.sort();
+        let promise = new Promise<INoteIndex>((resolve, reject) => {
+            let index: INoteIndex = {
+                version: INDEX_VERSION,
+                notebooks: sortNotebooks(this._notebooks).map(dumpNotebook),
+            };
+            if (ServiceLocator.keyRing.hasPassphrase) {
+                index.encryption = ServiceLocator.keyRing.params;
             }
-
-            let ordered: NoteIndex = {};
-            Object.keys(raw).sort().forEach((notebookName) => {
-                ordered[notebookName] = raw[notebookName];
-            });
-
-            resolve(ordered);
+            resolve(index);
         });
 
-        return promise.then((index: NoteIndex) => {
-            return writeJson(indexFile, index, { flag: 'w' });
+        // write a temporary file and rename it, so the index is never left half written
+        let tmpFile = `${indexFile}.tmp`;
+        return promise.then((index: INoteIndex) => {
+            return writeJson(tmpFile, index, { flag: 'w' });
+        }).then(() => {
+            return rename(tmpFile, indexFile);
+        }).catch((e) => {
+            return remove(tmpFile).then(() => {
+                throw e;
+            });
         });
     }
 }
@@ -1,6 +1,13 @@
 import { MarkdownIt, Ruler } from 'markdown-it';
 import { getLanguage, highlight } from 'highlight.js';
 import { Note } from './note';
+import { INoteMetadata, parseFrontMatter } from './front-matter';
+import { isRelativeLink, resolveLink } from './attachments';
+import { IWikiLink, parseWikiLink, formatWikiLink } from './link-index';
+import ServiceLocator from './service-locator';
+import { AllHtmlEntities } from 'html-entities';
+
+const entities = new AllHtmlEntities();
 
 export interface IOutlineHeader {
     level: number;
@@ -10,10 +17,44 @@ export interface IOutlineHeader {
 
 export interface IRenderResult {
     content: string;
+    metadata: INoteMetadata;
     outlineHeaders: IOutlineHeader[];
     blockCodeLines: number[];
 }
 
+export function wikiLinkClass(resolved: boolean): string {
+    return resolved ? 'wiki-link' : 'wiki-link unresolved';
+}
+
+export function wikiLinkTitle(link: IWikiLink, resolved: boolean): string {
+    let target = formatWikiLink(link);
+    return resolved ? target : `Create note: ${target}`;
+}
+
+/**
+ * Inline rule turning wiki link into a token, the silent flag is optional
+ * as the typings only know core rules which take no silent argument
+ */
+function wikiLinkRule(state: any, silent?: boolean): boolean {
+    if (state.src.charCodeAt(state.pos) !== 0x5B /* [ */
+        || state.src.charCodeAt(state.pos + 1) !== 0x5B) {
+        return false;
+    }
+
+    let link = parseWikiLink(state.src.slice(state.pos));
+    if (!link || !link.name) {
+        return false;
+    }
+
+    if (!silent) {
+        let token = state.push('wiki_link', 'a', 0);
+        token.meta = link;
+        token.markup = state.src.substr(state.pos, link.length);
+    }
+    state.pos += link.length;
+    return true;
+}
+
 export class NoteRenderer {
     private _engine: MarkdownIt;
 
@@ -52,6 +93,45 @@ export class NoteRenderer {
             return self.renderToken(tokens, idx, options, env, self);
         };
 
+        // [[Notebook/Note#Heading|label]] links to another note
+        engine.inline.ruler.before('link', 'wiki_link', wikiLinkRule);
+
+        engine.renderer.rules.wiki_link = (tokens: any, idx: number, options: any, env: any) => {
+            let token = tokens[idx];
+            let link: IWikiLink = token.meta;
+            let target = formatWikiLink(link);
+            let text = link.label || (link.heading ? `${target}#${link.heading}` : target);
+            let resolved = ServiceLocator.noteManager.resolveWikiLink(link, env && env.note);
+
+            return `<a href="#" class="${wikiLinkClass(!!resolved)}" title="${entities.encode(wikiLinkTitle(link, !!resolved))}"`
+                + ` data-link="${entities.encode(token.markup)}">${entities.encode(text)}</a>`;
+        };
+
+        // resolve relative paths of images and links against the directory of the note
+        engine.core.ruler.push('resolve_paths', (state: any) => {
+            let dirname: string = state.env && state.env.dirname;
+            if (!dirname) {
+                return;
+            }
+
+            let resolve = (token: any, attrName: string) => {
+                let link = token.attrGet(attrName);
+                if (link && isRelativeLink(link)) {
+                    token.attrSet(attrName, resolveLink(dirname, link));
+                }
+            };
+
+            for (const blockToken of state.tokens) {
+                for (const token of blockToken.children || []) {
+                    if (token.type === 'image') {
+                        resolve(token, 'src');
+                    } else if (token.type === 'link_open') {
+                        resolve(token, 'href');
+                    }
+                }
+            }
+        });
+
         for (const ruleName of ['paragraph_open',
             'heading_open',
             'image',
@@ -68,8 +148,13 @@ export class NoteRenderer {
         this._outlineHeaders = [];
         this._blockCodeLines = [];
 
+        let frontMatter = parseFrontMatter(note.content);
+        // replace front-matter block with empty lines to keep line numbers of the content
+        let body = '\n'.repeat(frontMatter.lines) + frontMatter.body;
+
         return {
-            content: this._engine.render(note.content),
+            content: this._engine.render(body, { dirname: note.notebook ? note.notebook.pathname : null, note }),
+            metadata: frontMatter.metadata,
             outlineHeaders: this._outlineHeaders,
             blockCodeLines: this._blockCodeLines,
         };
@@ -0,0 +1,113 @@
+import { sep as pathSep } from 'path';
+import { watch, FSWatcher } from 'fs';
+import { EventEmitter } from 'events';
+import { readdir, stat, exists } from 'fs-promise';
+import ServiceLocator from './service-locator';
+
+// wait for the writer to finish before reporting the change
+const CHANGE_DELAY = 300;
+
+export const Event = {
+    change: 'note-watcher:change',
+};
+
+function isHidden(name: string): boolean {
+    return name[0] === '.';
+}
+
+/**
+ * Watch the note directory and its sub directories, `fs.watch` is not
+ * recursive on every platform so each directory has its own watcher
+ */
+export class NoteWatcher extends EventEmitter {
+    // dirname -> watcher
+    private _watchers: Map<string, FSWatcher> = new Map();
+    // pathname -> pending change timer
+    private _timers: Map<string, NodeJS.Timer> = new Map();
+
+    start(basedir: string): Promise<void> {
+        this.stop();
+        return this._watchTree(basedir);
+    }
+
+    stop() {
+        this._watchers.forEach((watcher) => watcher.close());
+        this._watchers.clear();
+        this._timers.forEach((timer) => clearTimeout(timer));
+        this._timers.clear();
+    }
+
+    private _watchTree(dirname: string): Promise<void> {
+        if (this._watchers.has(dirname)) {
+            return Promise.resolve();
+        }
+
+        this._watchDir(dirname);
+        return readdir(dirname).then((names: string[]) => {
+            return Promise.all(names.filter((name) => !isHidden(name)).map((name) => {
+                let pathname = `${dirname}${pathSep}${name}`;
+                return stat(pathname).then((stats) => {
+                    return stats.isDirectory() ? this._watchTree(pathname) : Promise.resolve();
+                });
+            }));
+        }).then(() => {}, (e) => {
+            ServiceLocator.logger.error(e);
+        });
+    }
+
+    private _watchDir(dirname: string) {
+        let watcher: FSWatcher;
+        try {
+            watcher = watch(dirname, (eventType: string, filename: string) => {
+                if (filename && !isHidden(filename)) {
+                    this._schedule(`${dirname}${pathSep}${filename}`);
+                }
+            });
+        } catch (e) {
+            ServiceLocator.logger.error(e);
+            return;
+        }
+
+        // directory is removed
+        watcher.on('error', () => {
+            this._unwatch(dirname);
+        });
+        this._watchers.set(dirname, watcher);
+    }
+
+    private _unwatch(dirname: string) {
+        for (let [name, watcher] of Array.from(this._watchers)) {
+            if (name === dirname || name.startsWith(`${dirname}${pathSep}`)) {
+                watcher.close();
+                this._watchers.delete(name);
+            }
+        }
+    }
+
+    private _schedule(pathname: string) {
+        clearTimeout(this._timers.get(pathname));
+        this._timers.set(pathname, setTimeout(() => {
+            this._timers.delete(pathname);
+            this._onChange(pathname);
+        }, CHANGE_DELAY));
+    }
+
+    private _onChange(pathname: string) {
+        exists(pathname).then((found: boolean) => {
+            if (!found) {
+                this._unwatch(pathname);
+                return;
+            }
+            return stat(pathname).then((stats) => {
+                // watch directories created outside
+                if (stats.isDirectory()) {
+                    return this._watchTree(pathname);
+                }
+            });
+        }).then(() => {
+            this.emit(Event.change, pathname);
+        }).catch((e) => {
+            ServiceLocator.logger.error(e);
+        });
+    }
+}
@@ -1,38 +1,137 @@
 import { sep as pathSep } from 'path';
-import { readFileSync } from 'fs';
-import { ensureFile, writeFile, rename } from 'fs-promise';
+import { readFileSync, existsSync } from 'fs';
+import { ensureFile, writeFile, rename, move, exists } from 'fs-promise';
 import ServiceLocator from './service-locator';
 import { Event as  NoteManagerEvent } from './note-manager';
+import { INoteMetadata, parseFrontMatter, setFrontMatter, formatDate } from './front-matter';
+import { isEncryptedContent } from './encryption';
 
 const CONVERT_NAME_REG = /[/\\:?"<>| ]/g;
 
-function getNoteDirname(notebook: string): string {
-    return `${ServiceLocator.noteManager.basedir}${pathSep}${notebook.toLocaleLowerCase().replace(CONVERT_NAME_REG, '-')}`;
+// separator of notebook names in a notebook path, e.g. Work/ProjectA/Meetings
+export const NOTEBOOK_PATH_SEP = '/';
+
+export function convertName(name: string): string {
+    return name.toLocaleLowerCase().replace(CONVERT_NAME_REG, '-');
+}
+
+/**
+ * Slug of the name which is not taken yet, slugs are compared case-insensitively
+ * so notes never share a file on case-insensitive file systems
+ */
+export function uniqueSlug(name: string, takenSlugs: string[]): string {
+    let taken = new Set(takenSlugs.map((slug) => slug.toLocaleLowerCase()));
+    let base = convertName(name);
+    let slug = base;
+
+    for (let i = 2; taken.has(slug); i++) {
+        slug = `${base}-${i}`;
+    }
+    return slug;
 }
 
-function getNoteFilename(notebook: string, note: string): string {
-    return `${getNoteDirname(notebook)}${pathSep}${note.toLocaleLowerCase().replace(CONVERT_NAME_REG, '-')}.md`;
+function getNoteDirname(notebook: Notebook): string {
+    let parentDir = notebook.parent ? notebook.parent.pathname : ServiceLocator.noteManager.basedir;
+    return `${parentDir}${pathSep}${notebook.slug}`;
+}
+
+function getNoteFilename(notebook: Notebook, slug: string): string {
+    return `${notebook.pathname}${pathSep}${slug}.md`;
 }
 
 function getNoteContents(note: Note): string {
-    let noteFile = getNoteFilename(note.notebook.name, note.name);
+    let noteFile = getNoteFilename(note.notebook, note.slug);
 
-    return readFileSync(noteFile, {
+    let content = readFileSync(noteFile, {
         encoding: 'utf8'
     });
+    return isEncryptedContent(content) ? ServiceLocator.keyRing.decrypt(content) : content;
+}
+
+export type NoteSortMode = 'name' | 'created' | 'modified' | 'manual';
+
+function compareNames(a: Note, b: Note): number {
+    return a.name < b.name ? -1 : (a.name > b.name ? 1 : 0);
+}
+
+function compareTimes(a: Date, b: Date): number {
+    // notes of unknown time go last
+    return (b ? b.getTime() : 0) - (a ? a.getTime() : 0);
+}
+
+/**
+ * Sort notes in the sort mode of the notebook, the latest ones go first when sorted by time,
+ * notes not arranged by hand yet follow the arranged ones by name
+ */
+export function sortNotes(notes: Iterable<Note>, notebook: Notebook): Note[] {
+    let positions = new Map<string, number>();
+    notebook.noteOrder.forEach((name, i) => positions.set(name, i));
+    let getPosition = (note: Note) => positions.has(note.name) ? positions.get(note.name) : Infinity;
+
+    return Array.from(notes).sort((a, b) => {
+        let result = 0;
+        switch (notebook.sortMode) {
+            case 'created':
+                result = compareTimes(a.createdAt, b.createdAt);
+                break;
+            case 'modified':
+                result = compareTimes(a.modifiedAt, b.modifiedAt);
+                break;
+            case 'manual':
+                result = getPosition(a) === getPosition(b) ? 0 : (getPosition(a) < getPosition(b) ? -1 : 1);
+                break;
+        }
+        return result || compareNames(a, b);
+    });
 }
 
 export class Notebook {
     readonly notes: Map<string, Note>;
+    // sub notebooks
+    readonly notebooks: Map<string, Notebook>;
+    // template of the notes created in this notebook, null for empty notes
+    template: string;
+    // notes of this notebook and its sub notebooks are encrypted
+    encrypted: boolean;
+    // how notes are ordered in the notebook list
+    sortMode: NoteSortMode;
+    // names of the notes arranged by hand, used in manual sort mode
+    noteOrder: string[];
 
     private _name: string;
+    // name of the directory, kept in the note index
+    private _slug: string;
+    private _parent: Notebook;
 
     get name(): string {
         return this._name;
     }
 
+    get slug(): string {
+        return this._slug;
+    }
+
+    get parent(): Notebook {
+        return this._parent;
+    }
+
+    // names from the top level notebook to this notebook
+    get path(): string[] {
+        let path = this._parent ? this._parent.path : [];
+        path.push(this._name);
+        return path;
+    }
+
+    get depth(): number {
+        return this._parent ? this._parent.depth + 1 : 0;
+    }
+
     get pathname(): string {
-        return getNoteDirname(this._name);
+        return getNoteDirname(this);
+    }
+
+    get isEncrypted(): boolean {
+        return this.encrypted || (this._parent ? this._parent.isEncrypted : false);
     }
 
     get hasChangedNotes(): boolean {
@@ -41,33 +140,94 @@ export class Notebook {
                 return true;
             }
         }
+        for (let notebook of this.notebooks.values()) {
+            if (notebook.hasChangedNotes) {
+                return true;
+            }
+        }
         return false;
     }
 
-    constructor(name: string) {
+    // notes of this notebook and all its sub notebooks
+    get allNotes(): Note[] {
+        let notes = Array.from(this.notes.values());
+        for (let notebook of this.notebooks.values()) {
+            notes = notes.concat(notebook.allNotes);
+        }
+        return notes;
+    }
+
+    constructor(name: string, parent: Notebook = null, slug: string = convertName(name)) {
         this._name = name;
+        this._slug = slug;
+        this._parent = parent;
         this.notes = new Map<string, Note>();
+        this.notebooks = new Map<string, Notebook>();
+        this.template = null;
+        this.encrypted = false;
+        this.sortMode = 'name';
+        this.noteOrder = [];
+    }
+
+    /**
+     * Whether the notebook is this notebook or one of its sub notebooks
+     */
+    contains(notebook: Notebook): boolean {
+        for (; notebook; notebook = notebook.parent) {
+            if (notebook === this) {
+                return true;
+            }
+        }
+        return false;
     }
 
-    rename(newName: string): Promise<void> {
+    rename(newName: string, newSlug: string = convertName(newName)): Promise<void> {
         if (!newName) {
             throw new Error('Empty notebook name');
         }
 
-        let oldName = this.name;
+        let oldName = this._name;
+        let oldSlug = this._slug;
+        let oldDirname = this.pathname;
         this._name = newName;
+        this._slug = newSlug;
 
-        return rename(getNoteDirname(oldName), getNoteDirname(newName));
+        return exists(oldDirname).then((found: boolean) => {
+            // notebook without saved notes has no directory
+            return found && newSlug !== oldSlug ? rename(oldDirname, this.pathname) : Promise.resolve();
+        }).catch((e) => {
+            this._name = oldName;
+            this._slug = oldSlug;
+            throw e;
+        });
     }
 }
 
 export class Note {
+    // the note is encrypted itself, it's also encrypted if its notebook is
+    encrypted: boolean = false;
+    // pinned to the favorites
+    favorite: boolean = false;
+    // times of the note file for sorting, null until they're read
+    createdAt: Date = null;
+    modifiedAt: Date = null;
+
     private _notebook: Notebook;
     private _name: string;
+    // name of the note file without extension, kept in the note index
+    private _slug: string;
     private _content: string;
     private _editorModel: monaco.editor.IModel;
     private _versionId: number;
     private _changed: boolean;
+    // content of the note file when it's read or saved last time
+    private _savedContent: string;
+
+    // parsed front-matter and the content it's parsed from
+    private _metadata: INoteMetadata;
+    private _metadataSource: string;
+    // offset to place the cursor at when the note is edited next time, -1 for none
+    private _cursorOffset: number = -1;
 
     get notebook(): Notebook {
         return this._notebook;
@@ -93,22 +253,75 @@ export class Note {
         this._name = val;
     }
 
+    get slug(): string {
+        return this._slug;
+    }
+
+    set slug(val) {
+        // can only set orphan note slug
+        if (this._slug) {
+            return;
+        }
+        this._slug = val;
+    }
+
     get content(): string {
         if (this._editorModel) {
             return this._editorModel.getValue();
         }
 
         if (typeof this._content === 'undefined') {
-            this._content = getNoteContents(this);
+            this._content = this._savedContent = getNoteContents(this);
         }
         return this._content;
     }
 
     set content(content: string) {
+        let model = this._editorModel;
+        if (model) {
+            // replace the changed part only with an undoable edit, so cursor is kept
+            let oldContent = model.getValue();
+            let length = Math.min(oldContent.length, content.length);
+            let start = 0, end = 0;
+            while (start < length && oldContent[start] === content[start]) {
+                start++;
+            }
+            while (end < length - start
+                && oldContent[oldContent.length - 1 - end] === content[content.length - 1 - end]) {
+                end++;
+            }
+            if (start === oldContent.length && start === content.length) {
+                return;
+            }
+
+            model.pushEditOperations([], [{
+                identifier: null,
+                range: Monaco.Range.fromPositions(model.getPositionAt(start), model.getPositionAt(oldContent.length - end)),
+                text: content.substring(start, content.length - end),
+                forceMoveMarkers: true
+            }], null);
+            return;
+        }
+
         this._content = content;
         this._changed = true;
     }
 
+    get metadata(): INoteMetadata {
+        let content = this.content;
+        if (content !== this._metadataSource) {
+            this._metadata = parseFrontMatter(content).metadata;
+            this._metadataSource = content;
+        }
+
+        // return a copy to prevent changing metadata without setter
+        return Object.assign({}, this._metadata);
+    }
+
+    set metadata(metadata: INoteMetadata) {
+        this.content = setFrontMatter(this.content, metadata);
+    }
+
     get changed(): boolean {
         if (this._changed) {
             return true;
@@ -121,16 +334,39 @@ export class Note {
         return false;
     }
 
+    get cursorOffset(): number {
+        return this._cursorOffset;
+    }
+
+    set cursorOffset(offset: number) {
+        this._cursorOffset = offset;
+    }
+
+    get savedContent(): string {
+        return this._savedContent;
+    }
+
     get filename(): string {
-        return getNoteFilename(this._notebook.name, this._name);
+        return getNoteFilename(this._notebook, this._slug);
     }
 
     get editorModel(): monaco.editor.IModel {
         return this._editorModel;
     }
 
-    constructor(name: string, notebook: Notebook = null) {
+    get isEncrypted(): boolean {
+        return this.encrypted || (this._notebook ? this._notebook.isEncrypted : false);
+    }
+
+    // encrypted and its content cannot be read until notes are unlocked
+    get locked(): boolean {
+        return this.isEncrypted && !ServiceLocator.keyRing.unlocked
+            && typeof this._content === 'undefined' && !this._editorModel;
+    }
+
+    constructor(name: string, notebook: Notebook = null, slug: string = convertName(name)) {
         this._name = name;
+        this._slug = slug;
         this._notebook = notebook;
     }
 
@@ -144,37 +380,178 @@ export class Note {
         this._changed = false;
     }
 
-    save() {
+    save(): Promise<void> {
         let model = this._editorModel;
-        let versionId;
 
-        if (!model || (versionId = model.getAlternativeVersionId()) === this._versionId) {
+        if (!this.changed) {
             // not edit note yet
-            return;
+            return Promise.resolve();
         }
 
-        this._versionId = versionId;
+        let filename = getNoteFilename(this._notebook, this._slug);
+        let content = this._touch(this.content, !existsSync(filename));
+        let oldSavedContent = this._savedContent;
+        if (model) {
+            this._versionId = model.getAlternativeVersionId();
+        } else {
+            this._content = content;
+        }
+        this._changed = false;
+        this._savedContent = content;
 
-        let filename = getNoteFilename(this._notebook.name, this._name);
-        ensureFile(filename).then(() => {
-            return writeFile(filename, model.getValue());
-        }).then(() => {
+        return this.write(content).then(() => {
             ServiceLocator.noteManager.emit(NoteManagerEvent.note_saved, this);
         }).catch((e) => {
+            // still unsaved, so the changes are never taken as saved
+            this._changed = true;
+            this._savedContent = oldSavedContent;
             ServiceLocator.noteManager.emit(NoteManagerEvent.save_note_failed, this);
             ServiceLocator.alerter.fatal(`__Reboot Needed!!!__ ${e.message}`);
+            throw e;
         });
     }
 
-    rename(newName: string): Promise<void> {
+    /**
+     * Write the content into the note file, encrypted if the note is
+     */
+    write(content: string): Promise<void> {
+        let filename = this.filename;
+        let data: string;
+        try {
+            data = this.isEncrypted ? ServiceLocator.keyRing.encrypt(content) : content;
+        } catch (e) {
+            return Promise.reject(e);
+        }
+
+        return ensureFile(filename).then(() => writeFile(filename, data));
+    }
+
+    /**
+     * Write the saved content again after the note is encrypted or decrypted,
+     * unsaved changes are kept
+     */
+    rewrite(): Promise<void> {
+        if (!existsSync(this.filename)) {
+            // not saved yet
+            return Promise.resolve();
+        }
+
+        let content = typeof this._savedContent === 'string' ? this._savedContent : getNoteContents(this);
+        this._savedContent = content;
+        return this.write(content);
+    }
+
+    /**
+     * Drop the decrypted content kept in memory, the note must be closed in the editor
+     */
+    forget() {
+        if (this._editorModel) {
+            this._editorModel.dispose();
+            this._editorModel = null;
+        }
+
+        this._content = undefined;
+        this._savedContent = undefined;
+        this._changed = false;
+        this._metadata = undefined;
+        this._metadataSource = undefined;
+    }
+
+    /**
+     * Replace content with the one changed outside, local changes are dropped
+     */
+    reload(content: string) {
+        let model = this._editorModel;
+        if (model) {
+            model.setValue(content);
+            this._versionId = model.getAlternativeVersionId();
+        } else {
+            this._content = content;
+        }
+
+        this._changed = false;
+        this._savedContent = content;
+    }
+
+    /**
+     * Keep local changes over the content changed outside, they overwrite it on saving
+     */
+    keepLocalChanges(diskContent: string) {
+        this._savedContent = diskContent;
+    }
+
+    /**
+     * Maintain `updated` (and `created` for new note) field of the content to write,
+     * notes without front-matter are written as they are. The editor buffer is left
+     * alone so saving never moves the cursor or adds an undo step
+     */
+    private _touch(content: string, isNew: boolean): string {
+        let result = parseFrontMatter(content);
+        if (!result.lines) {
+            return content;
+        }
+
+        let metadata = result.metadata;
+        let now = formatDate();
+
+        if (isNew && !metadata.created) {
+            metadata.created = now;
+        }
+        metadata.updated = now;
+
+        return setFrontMatter(content, metadata);
+    }
+
+    rename(newName: string, newSlug: string = convertName(newName)): Promise<void> {
         if (!newName) {
             throw new Error('Empty note name');
         }
 
-        let oldName = this.name;
-        let notebookName = this._notebook.name;
+        let oldName = this._name;
+        let oldSlug = this._slug;
+        let notebook = this._notebook;
         this._name = newName;
+        this._slug = newSlug;
+
+        // only the display name changes if the slug is kept
+        if (newSlug === oldSlug) {
+            return Promise.resolve();
+        }
+
+        return rename(getNoteFilename(notebook, oldSlug), getNoteFilename(notebook, newSlug)).catch((e) => {
+            this._name = oldName;
+            this._slug = oldSlug;
+            throw e;
+        });
+    }
+
+    /**
+     * Move note file into another notebook, the note object is kept
+     */
+    move(notebook: Notebook, newSlug: string = this._slug): Promise<void> {
+        if (!notebook) {
+            throw new Error('Empty notebook');
+        }
+
+        let oldNotebook = this._notebook;
+        let oldSlug = this._slug;
+        let oldFilename = this.filename;
+        this._notebook = notebook;
+        this._slug = newSlug;
+
+        return move(oldFilename, this.filename).catch((e) => {
+            this._notebook = oldNotebook;
+            this._slug = oldSlug;
+            throw e;
+        });
+    }
 
-        return rename(getNoteFilename(notebookName, oldName), getNoteFilename(notebookName, newName));
+    /**
+     * Turn note created from the orphan note back into the orphan note
+     */
+    detach() {
+        this._name = '';
+        this._slug = '';
+        this._notebook = null;
     }
 }
\ No newline at end of file
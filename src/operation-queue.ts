@@ -0,0 +1,64 @@
+import ServiceLocator from './service-locator';
+
+export interface IOperationStep {
+    run: () => Promise<any> | void;
+    // undo the step after it's done
+    rollback?: () => Promise<any> | void;
+}
+
+/**
+ * Run steps one by one, done steps are rolled back in reverse order if any step fails
+ */
+export function runSteps(steps: IOperationStep[]): Promise<void> {
+    let doneSteps: IOperationStep[] = [];
+    let promise: Promise<any> = Promise.resolve();
+
+    steps.forEach((step) => {
+        promise = promise.then(() => step.run()).then(() => {
+            doneSteps.push(step);
+        });
+    });
+
+    return promise.then(() => {}, (e) => {
+        let rollback: Promise<any> = Promise.resolve();
+        doneSteps.reverse().filter((step) => step.rollback).forEach((step) => {
+            rollback = rollback.then(() => step.rollback()).catch((rollbackError) => {
+                // keep rolling back the other steps
+                ServiceLocator.logger.error(rollbackError);
+            });
+        });
+
+        return rollback.then(() => {
+            throw e;
+        });
+    });
+}
+
+/**
+ * Operations are run one after another, so each one sees the result of the previous one
+ */
+export class OperationQueue {
+    private _tail: Promise<any> = Promise.resolve();
+    private _size: number = 0;
+
+    get idle(): boolean {
+        return this._size === 0;
+    }
+
+    push<T>(operation: () => Promise<T>): Promise<T> {
+        this._size++;
+
+        let promise = this._tail.then(() => operation());
+        let done = () => {
+            this._size--;
+        };
+
+        // failure of an operation should not block the following ones
+        this._tail = promise.then(done, done);
+        return promise;
+    }
+
+    run(steps: IOperationStep[]): Promise<void> {
+        return this.push(() => runSteps(steps));
+    }
+}
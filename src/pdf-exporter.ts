@@ -0,0 +1,448 @@
+import { join, basename } from 'path';
+import { tmpdir } from 'os';
+import { writeFile, remove } from 'fs-promise';
+import { remote } from 'electron';
+import { AllHtmlEntities } from 'html-entities';
+import ServiceLocator from './service-locator';
+import { Note, Notebook, NOTEBOOK_PATH_SEP } from './note';
+import { IOutlineHeader } from './note-renderer';
+import { IPdfOptions } from './config';
+import { resolveLink } from './attachments';
+import { collectReaderStyles } from './html-exporter';
+import { noteHtml, renderResultHtml } from './views/reader';
+
+// width and height of the pages in millimeters, named as printToPDF knows them
+export const PAGE_SIZES = {
+    A3: [297, 420],
+    A4: [210, 297],
+    A5: [148, 210],
+    Letter: [215.9, 279.4],
+    Legal: [215.9, 355.6],
+};
+
+// set by the layout script once the pages are laid out
+const LAYOUT_DONE_TITLE = 'husky:pdf-layout-done';
+
+const entities = new AllHtmlEntities();
+
+interface IPdfLayout {
+    // title of the document, e.g. the notebook name
+    title: string;
+    headerFooter: boolean;
+    pageNumbers: boolean;
+    toc: boolean;
+    breakBeforeH1: boolean;
+    // notes in the order of their sections
+    notes: { name: string, notebook: string, headers: IOutlineHeader[] }[];
+}
+
+/**
+ * Lay the note sections out into pages, run inside the print window once its images are loaded.
+ * It's serialized into the document, so it must not use anything outside its own body
+ */
+function layoutPages(layout: IPdfLayout) {
+    let source = document.querySelector('.pdf-source');
+    let pagesEl = document.querySelector('.pdf-pages');
+    let pages: HTMLElement[] = [];
+    let body: HTMLElement = null;
+
+    let element = (tagName: string, className: string, text?: string): HTMLElement => {
+        let el = document.createElement(tagName);
+        el.className = className;
+        if (text) {
+            el.textContent = text;
+        }
+        return el;
+    };
+
+    let newPage = (title: string, notebook: string): HTMLElement => {
+        let page = element('div', 'pdf-page');
+        if (layout.headerFooter) {
+            let header = element('div', 'pdf-header');
+            header.appendChild(element('span', 'pdf-title', title));
+            header.appendChild(element('span', 'pdf-notebook', notebook));
+            page.appendChild(header);
+        }
+
+        body = element('div', 'markdown-body pdf-body');
+        page.appendChild(body);
+
+        if (layout.headerFooter || layout.pageNumbers) {
+            let footer = element('div', 'pdf-footer');
+            footer.appendChild(element('span', 'pdf-document', layout.headerFooter ? layout.title : ''));
+            footer.appendChild(element('span', 'pdf-page-number'));
+            page.appendChild(footer);
+        }
+
+        pagesEl.appendChild(page);
+        pages.push(page);
+        return page;
+    };
+
+    let overflows = (): boolean => body.scrollHeight > body.clientHeight;
+
+    // scale the block down to the page, nothing is cut off
+    let fit = (block: HTMLElement) => {
+        block.style.zoom = String(Math.max(0.1, body.clientHeight / body.scrollHeight * 0.98));
+    };
+
+    // lists, quotes, tables and code blocks higher than a page continue on the next pages
+    let split = (block: HTMLElement): { parts: Node[], shell: (placed: number) => { el: HTMLElement, container: HTMLElement } } => {
+        let tagName = block.tagName;
+
+        if ((tagName === 'UL' || tagName === 'OL' || tagName === 'BLOCKQUOTE') && block.children.length > 1) {
+            let start = parseInt(block.getAttribute('start'), 10) || 1;
+            return {
+                parts: Array.prototype.slice.call(block.children),
+                shell: (placed: number) => {
+                    let el = block.cloneNode(false) as HTMLElement;
+                    if (tagName === 'OL') {
+                        el.setAttribute('start', String(start + placed));
+                    }
+                    return { el, container: el };
+                },
+            };
+        }
+
+        let rows = block.querySelectorAll('tbody > tr');
+        if (tagName === 'TABLE' && rows.length > 1) {
+            let head = block.querySelector('thead');
+            return {
+                parts: Array.prototype.slice.call(rows),
+                shell: () => {
+                    let el = block.cloneNode(false) as HTMLElement;
+                    let container = document.createElement('tbody');
+                    if (head) {
+                        el.appendChild(head.cloneNode(true));
+                    }
+                    el.appendChild(container);
+                    return { el, container };
+                },
+            };
+        }
+
+        let lines = block.textContent.split('\n');
+        if (tagName === 'PRE' && lines.length > 1) {
+            // highlighted spans could cross lines, so split code is plain text
+            let code = block.querySelector('code');
+            return {
+                parts: lines.map((line, i) => document.createTextNode(i < lines.length - 1 ? `${line}\n` : line)),
+                shell: () => {
+                    let el = block.cloneNode(false) as HTMLElement;
+                    let container = (code ? code.cloneNode(false) : el) as HTMLElement;
+                    if (container !== el) {
+                        el.appendChild(container);
+                    }
+                    return { el, container };
+                },
+            };
+        }
+
+        return null;
+    };
+
+    let placeParts = (block: HTMLElement, title: string, notebook: string): boolean => {
+        let pieces = split(block);
+        if (!pieces) {
+            return false;
+        }
+
+        let parts = pieces.parts;
+        let placed = 0;
+        while (placed < parts.length) {
+            let shell = pieces.shell(placed);
+            let count = 0;
+
+            body.appendChild(shell.el);
+            while (placed + count < parts.length) {
+                shell.container.appendChild(parts[placed + count]);
+                if (overflows()) {
+                    shell.container.removeChild(parts[placed + count]);
+                    break;
+                }
+                count++;
+            }
+
+            if (!count) {
+                body.removeChild(shell.el);
+                if (body.firstChild) {
+                    newPage(title, notebook);
+                    continue;
+                }
+                // a single part higher than the page
+                shell.container.appendChild(parts[placed]);
+                body.appendChild(shell.el);
+                fit(shell.el);
+                count = 1;
+            }
+
+            placed += count;
+            if (placed < parts.length) {
+                newPage(title, notebook);
+            }
+        }
+        return true;
+    };
+
+    let place = (block: HTMLElement, title: string, notebook: string) => {
+        body.appendChild(block);
+        if (!overflows()) {
+            return;
+        }
+
+        if (body.firstChild !== block) {
+            newPage(title, notebook);
+            body.appendChild(block);
+            if (!overflows()) {
+                return;
+            }
+        }
+
+        // higher than a page
+        body.removeChild(block);
+        if (!placeParts(block, title, notebook)) {
+            body.appendChild(block);
+            fit(block);
+        }
+    };
+
+    let tocEntries: { title: string, level: number, target: HTMLElement }[] = [];
+    let sections = document.querySelectorAll('.pdf-note');
+
+    for (let i = 0; i < sections.length; i++) {
+        let note = layout.notes[i];
+        let content = sections[i].querySelector('.markdown-body');
+
+        // each note starts on a new page, which the table of contents links to
+        let firstPage = newPage(note.name, note.notebook);
+        firstPage.id = `pdf-note-${i}`;
+        if (sections.length > 1) {
+            tocEntries.push({ title: note.name, level: 0, target: firstPage });
+        }
+
+        for (let j = 0; j < note.headers.length; j++) {
+            let header = note.headers[j];
+            let headerEl = content.querySelector(`[data-line="${header.line}"]`) as HTMLElement;
+            if (headerEl) {
+                headerEl.id = `pdf-header-${i}-${header.line}`;
+                tocEntries.push({ title: header.title, level: header.level, target: headerEl });
+            }
+        }
+
+        let blocks: HTMLElement[] = Array.prototype.slice.call(content.children);
+        for (let j = 0; j < blocks.length; j++) {
+            if (layout.breakBeforeH1 && blocks[j].tagName === 'H1' && body.firstChild) {
+                newPage(note.name, note.notebook);
+            }
+            place(blocks[j], note.name, note.notebook);
+        }
+    }
+    source.parentNode.removeChild(source);
+
+    let contentPages = pages;
+    let tocPages: HTMLElement[] = [];
+    let tocNumbers: { el: HTMLElement, target: HTMLElement }[] = [];
+
+    if (layout.toc && tocEntries.length) {
+        pages = [];
+        newPage(layout.title, '');
+        place(element('h1', 'pdf-toc-heading', 'Contents'), layout.title, '');
+
+        for (let i = 0; i < tocEntries.length; i++) {
+            let entry = tocEntries[i];
+            let item = element('div', `pdf-toc-item level-${entry.level}`);
+            let link = element('a', 'pdf-toc-title', entry.title);
+            let number = element('span', 'pdf-toc-page');
+
+            link.setAttribute('href', `#${entry.target.id}`);
+            item.appendChild(link);
+            item.appendChild(number);
+            place(item, layout.title, '');
+            tocNumbers.push({ el: number, target: entry.target });
+        }
+
+        tocPages = pages;
+        for (let i = 0; i < tocPages.length; i++) {
+            pagesEl.insertBefore(tocPages[i], contentPages[0]);
+        }
+    }
+
+    let allPages = tocPages.concat(contentPages);
+    for (let i = 0; i < tocNumbers.length; i++) {
+        let page = tocNumbers[i].target.classList.contains('pdf-page')
+            ? tocNumbers[i].target
+            : tocNumbers[i].target.closest('.pdf-page') as HTMLElement;
+        tocNumbers[i].el.textContent = String(allPages.indexOf(page) + 1);
+    }
+
+    if (layout.pageNumbers) {
+        for (let i = 0; i < allPages.length; i++) {
+            let numberEl = allPages[i].querySelector('.pdf-page-number');
+            numberEl.textContent = `${i + 1} / ${allPages.length}`;
+        }
+    }
+
+    document.title = 'husky:pdf-layout-done';
+}
+
+function pageStyles(options: IPdfOptions): string {
+    let size = PAGE_SIZES[options.pageSize] || PAGE_SIZES.A4;
+
+    return `
+@page { size: ${size[0]}mm ${size[1]}mm; margin: 0; }
+body { margin: 0; padding: 0; background-color: #fff; }
+.pdf-page {
+    display: flex; flex-direction: column; box-sizing: border-box; overflow: hidden;
+    width: ${size[0]}mm; height: ${size[1] - 0.5}mm; padding: ${options.margin}mm;
+    page-break-after: always;
+}
+.pdf-page:last-child { page-break-after: auto; }
+.pdf-header, .pdf-footer {
+    display: flex; flex: none; justify-content: space-between;
+    font-size: 10px; color: #999;
+}
+.pdf-header { margin-bottom: 4mm; padding-bottom: 1mm; border-bottom: 1px solid #eee; }
+.pdf-footer { margin-top: 4mm; }
+.pdf-body { flex: 1; overflow: hidden; }
+.pdf-toc-item { display: flex; line-height: 2; }
+.pdf-toc-item.level-1 { padding-left: 1.5em; }
+.pdf-toc-item.level-2 { padding-left: 3em; }
+.pdf-toc-title { flex: 1; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; color: inherit; }
+.pdf-toc-page { flex: none; padding-left: 1em; }
+`;
+}
+
+function documentHtml(notes: Note[], options: IPdfOptions, title: string): string {
+    let layout: IPdfLayout = {
+        title,
+        headerFooter: options.headerFooter,
+        pageNumbers: options.pageNumbers,
+        toc: options.toc,
+        breakBeforeH1: options.breakBeforeH1,
+        notes: [],
+    };
+
+    let sections = notes.map((note: Note) => {
+        let result = ServiceLocator.noteRenderer.render(note);
+        layout.notes.push({
+            name: note.name || 'Untitled',
+            notebook: note.notebook ? note.notebook.path.join(NOTEBOOK_PATH_SEP) : '',
+            headers: result.outlineHeaders,
+        });
+        return `<section class="pdf-note">${noteHtml(renderResultHtml(result))}</section>`;
+    });
+
+    // `<` is escaped so note names never close the script
+    let script = `window.addEventListener('load', function () {
+    (${layoutPages.toString()})(${JSON.stringify(layout).replace(/</g, '\\u003c')});
+});`;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${entities.encode(title)}</title>
+<style>
+${collectReaderStyles()}
+${pageStyles(options)}
+</style>
+</head>
+<body>
+<div class="pdf-source">${sections.join('\n')}</div>
+<div class="pdf-pages"></div>
+<script>${script}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Load the notes into a hidden window and lay them out, the window and its document are
+ * removed once the job is done
+ */
+function withPrintWindow(notes: Note[], options: IPdfOptions, title: string,
+    job: (win: Electron.BrowserWindow) => Promise<any>): Promise<void> {
+
+    let filename = join(tmpdir(), `husky-print-${Date.now()}.html`);
+    let win: Electron.BrowserWindow = null;
+
+    let cleanUp = () => {
+        if (win) {
+            win.destroy();
+        }
+        return remove(filename);
+    };
+
+    return writeFile(filename, documentHtml(notes, options, title)).then(() => {
+        return new Promise<void>((resolve, reject) => {
+            win = new remote.BrowserWindow({
+                show: false,
+                webPreferences: {
+                    offscreen: true,
+                    nodeIntegration: false,
+                },
+            });
+
+            win.on('page-title-updated', (event, pageTitle: string) => {
+                if (pageTitle === LAYOUT_DONE_TITLE) {
+                    resolve();
+                }
+            });
+            win.webContents.on('did-fail-load', (event, errorCode: number, errorDescription: string) => {
+                reject(new Error(errorDescription));
+            });
+
+            win.loadURL(resolveLink(tmpdir(), basename(filename)));
+        });
+    }).then(() => job(win)).then(() => cleanUp(), (e) => {
+        return cleanUp().then(() => {
+            throw e;
+        });
+    });
+}
+
+/**
+ * Readable notes of the notebook and its sub notebooks, in the order of the notebook list
+ */
+export function getPrintableNotes(notebook: Notebook): Note[] {
+    let manager = ServiceLocator.noteManager;
+    let byName = (a: Note | Notebook, b: Note | Notebook) => a.name.localeCompare(b.name);
+
+    let notes = Array.from(notebook.notes.values()).filter((note) => !manager.isMissingNote(note) && !note.locked).sort(byName);
+    for (const subNotebook of Array.from(notebook.notebooks.values()).sort(byName)) {
+        notes = notes.concat(getPrintableNotes(subNotebook));
+    }
+    return notes;
+}
+
+/**
+ * Write the notes into one pdf file, each note starts on a new page
+ */
+export function exportPdf(notes: Note[], options: IPdfOptions, title: string, filename: string): Promise<void> {
+    return withPrintWindow(notes, options, title, (win: Electron.BrowserWindow) => {
+        return new Promise((resolve, reject) => {
+            win.webContents.printToPDF({
+                pageSize: options.pageSize,
+                // margins are laid out by the pages themselves
+                marginsType: 1,
+                printBackground: true,
+            }, (error: Error, data: Buffer) => {
+                if (error) {
+                    reject(error);
+                    return;
+                }
+                resolve(writeFile(filename, data));
+            });
+        });
+    });
+}
+
+/**
+ * Print the notes with the system print dialog
+ */
+export function printNotes(notes: Note[], options: IPdfOptions, title: string): Promise<void> {
+    return withPrintWindow(notes, options, title, (win: Electron.BrowserWindow) => {
+        win.webContents.print({ printBackground: true });
+        return Promise.resolve();
+    });
+}
@@ -0,0 +1,151 @@
+import { sep as pathSep } from 'path';
+import { readdir, readJson, writeJson, remove, ensureDir, exists } from 'fs-promise';
+import { removeSync } from 'fs-extra';
+import { Note, NOTEBOOK_PATH_SEP } from './note';
+import ServiceLocator from './service-locator';
+import * as moment from 'moment';
+
+const JOURNAL_INTERVAL = 5000;
+
+export interface IJournalEntry {
+    // name of the library, missing in entries journaled by older versions
+    library?: string;
+    // notebook path of the note, empty for orphan note journaled by older versions
+    path: string[];
+    name: string;
+    content: string;
+    // ISO 8601 date string
+    journaledAt: string;
+}
+
+function getKey(library: string, note: Note): string {
+    return encodeURIComponent([library].concat(note.notebook.path, note.name).join(NOTEBOOK_PATH_SEP));
+}
+
+/**
+ * Unsaved contents of notes kept aside, so they could be recovered after a crash
+ */
+export class RecoveryJournal {
+    private _dirname: string;
+    private _timer: NodeJS.Timer;
+    // key -> journaled content
+    private _written: Map<string, string> = new Map();
+    private _writing: Promise<void> = Promise.resolve();
+
+    constructor(dirname: string) {
+        this._dirname = dirname;
+    }
+
+    start(interval: number = JOURNAL_INTERVAL) {
+        this.stop();
+        this._timer = setInterval(() => {
+            this.write().catch((e) => {
+                ServiceLocator.logger.error(e);
+            });
+        }, interval);
+    }
+
+    stop() {
+        clearInterval(this._timer);
+        this._timer = null;
+    }
+
+    /**
+     * Entries left by last session
+     */
+    load(): Promise<IJournalEntry[]> {
+        let dirname = this._dirname;
+
+        return exists(dirname).then((found: boolean) => {
+            return found ? readdir(dirname) : Promise.resolve([]);
+        }).then((files: string[]) => {
+            return Promise.all(files.map((file) => {
+                return readJson(`${dirname}${pathSep}${file}`).catch((e) => {
+                    ServiceLocator.logger.error(e);
+                    return null;
+                });
+            }));
+        }).then((entries: IJournalEntry[]) => {
+            return entries.filter((entry) => entry && typeof entry.content === 'string');
+        });
+    }
+
+    /**
+     * Journal changed notes and drop entries of notes which are saved, scratches are written
+     * by the scratchpad itself
+     */
+    write(): Promise<void> {
+        // a slow write is never overtaken by the next one
+        let write = this._writing.catch(() => {}).then(() => this._write());
+        this._writing = write;
+        return write;
+    }
+
+    clear(): Promise<void> {
+        this._written.clear();
+        return remove(this._dirname);
+    }
+
+    /**
+     * Could be called while the window is closing
+     */
+    clearSync() {
+        this._written.clear();
+        removeSync(this._dirname);
+    }
+
+    private _write(): Promise<void> {
+        let manager = ServiceLocator.noteManager;
+        let notes: Note[] = [];
+
+        for (let notebook of manager.walkNotebooks()) {
+            for (let note of notebook.notes.values()) {
+                // unsaved contents are written in plain text, encrypted notes are left out
+                if (note.changed && !note.isEncrypted) {
+                    notes.push(note);
+                }
+            }
+        }
+
+        let library = ServiceLocator.config.library;
+        let keys = new Set<string>();
+        let promises: Promise<void>[] = [];
+        for (let note of notes) {
+            let key = getKey(library, note);
+            let content = note.content;
+
+            keys.add(key);
+            if (this._written.get(key) === content) {
+                continue;
+            }
+
+            let entry: IJournalEntry = {
+                library,
+                path: note.notebook.path,
+                name: note.name,
+                content,
+                journaledAt: moment().format(),
+            };
+            // recorded once written, a failed write is tried again next time
+            promises.push(ensureDir(this._dirname).then(() => {
+                return writeJson(this._getFilename(key), entry);
+            }).then(() => {
+                this._written.set(key, content);
+            }));
+        }
+
+        for (let key of Array.from(this._written.keys())) {
+            if (!keys.has(key)) {
+                promises.push(remove(this._getFilename(key)).then(() => {
+                    this._written.delete(key);
+                }));
+            }
+        }
+
+        return Promise.all(promises).then(() => {});
+    }
+
+    private _getFilename(key: string): string {
+        return `${this._dirname}${pathSep}${key}.json`;
+    }
+}
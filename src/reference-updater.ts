@@ -0,0 +1,86 @@
+import { sep as pathSep, join, relative } from 'path';
+import { Note } from './note';
+import { isRelativeLink, replaceLinks } from './attachments';
+import { IWikiLink, replaceWikiLinks, wikiLinkMarkdown } from './link-index';
+
+// a file or directory gets another path
+export interface IPathMove {
+    from: string;
+    to: string;
+}
+
+export interface IReferenceLink {
+    from: string;
+    to: string;
+}
+
+export interface IReferenceChange {
+    note: Note;
+    // links before and after the update, shown in the preview
+    links: IReferenceLink[];
+    // contents could change before the update is applied, so it's rewritten again then
+    rewrite: (content: string) => string;
+}
+
+export interface IReferenceUpdate {
+    // e.g. Rename note: A → B
+    title: string;
+    changes: IReferenceChange[];
+    // notes with unsaved changes are left to the user
+    skipped: Note[];
+}
+
+/**
+ * Path after the moves, a path inside a moved directory is moved with it
+ */
+export function movePath(pathname: string, moves: IPathMove[]): string {
+    for (const move of moves) {
+        if (pathname === move.from) {
+            return move.to;
+        } else if (pathname.startsWith(move.from + pathSep)) {
+            return move.to + pathname.substr(move.from.length);
+        }
+    }
+    return pathname;
+}
+
+/**
+ * Rewrite relative links of the content whose target is moved, or all of them if the content
+ * itself is moved from the old directory to the new one. Wiki links are rewritten by the replacer
+ */
+export function rewriteReferences(content: string, oldDir: string, newDir: string, moves: IPathMove[],
+    replaceWikiLink: (link: IWikiLink) => IWikiLink, links: IReferenceLink[] = []): string {
+
+    content = replaceLinks(content, (link: string) => {
+        if (!isRelativeLink(link)) {
+            return null;
+        }
+
+        let hashIndex = link.indexOf('#');
+        let hash = hashIndex === -1 ? '' : link.substr(hashIndex);
+        let target = hashIndex === -1 ? link : link.substr(0, hashIndex);
+        try {
+            target = decodeURI(target);
+        } catch (e) { }
+
+        let oldPathname = join(oldDir, target);
+        let newPathname = movePath(oldPathname, moves);
+        // still linked to the same file
+        if (join(newDir, target) === newPathname) {
+            return null;
+        }
+
+        let newLink = encodeURI(relative(newDir, newPathname).split(pathSep).join('/')) + hash;
+
+        links.push({ from: link, to: newLink });
+        return newLink;
+    });
+
+    return replaceWikiLinks(content, (link: IWikiLink) => {
+        let newLink = replaceWikiLink(link);
+        if (newLink) {
+            links.push({ from: wikiLinkMarkdown(link), to: wikiLinkMarkdown(newLink) });
+        }
+        return newLink;
+    });
+}
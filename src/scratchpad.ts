@@ -0,0 +1,296 @@
+import { sep as pathSep } from 'path';
+import { EventEmitter } from 'events';
+import { writeFile, writeJson, remove, ensureDir } from 'fs-promise';
+import { readJsonSync, readFileSync, outputFileSync, outputJsonSync, removeSync } from 'fs-extra';
+import { Note, Notebook, NOTEBOOK_PATH_SEP } from './note';
+import { parseFrontMatter } from './front-matter';
+import ServiceLocator from './service-locator';
+
+const SCRATCH_INTERVAL = 2000;
+const INDEX_FILENAME = 'index.json';
+const HEADING_REG = /^ {0,3}#{1,6}\s+(.+?)\s*#*\s*$/;
+// notebooks remembered for filing scratches
+const RECENT_NOTEBOOKS = 10;
+const TITLE_LENGTH = 40;
+
+interface IScratchIndex {
+    // ids of the buffers in the order of their header entries
+    buffers: string[];
+    active: string;
+    // notebook paths joined by NOTEBOOK_PATH_SEP, the latest one goes first
+    recentNotebooks: string[];
+}
+
+export const Event = {
+    // buffers are added, removed or the active one is switched
+    change: 'scratchpad:change',
+};
+
+function generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+}
+
+/**
+ * Title in front-matter or the first heading of the note, empty if there's none
+ */
+export function findTitle(content: string): string {
+    let result = parseFrontMatter(content);
+    if (result.metadata.title) {
+        return result.metadata.title;
+    }
+
+    let inCode = false;
+    for (let line of result.body.split(/\r?\n/)) {
+        if (/^ {0,3}(```|~~~)/.test(line)) {
+            inCode = !inCode;
+        }
+        let match = inCode ? null : HEADING_REG.exec(line);
+        if (match) {
+            return match[1];
+        }
+    }
+    return '';
+}
+
+/**
+ * Untitled notes written aside of the note directory, they're kept between sessions
+ * until filed as notes or closed
+ */
+export class Scratchpad extends EventEmitter {
+    private _dirname: string;
+    private _timer: NodeJS.Timer;
+    // buffer -> id, in the order of their header entries
+    private _ids: Map<Note, string> = new Map();
+    private _active: Note = null;
+    // id -> written content
+    private _written: Map<string, string> = new Map();
+    private _recentNotebooks: string[] = [];
+    private _indexWritten: string = '';
+    private _writing: Promise<void> = Promise.resolve();
+
+    /**
+     * Buffers not filed as notes yet
+     */
+    get notes(): Note[] {
+        return Array.from(this._ids.keys()).filter((note) => !note.notebook);
+    }
+
+    get activeNote(): Note {
+        if (!this._active || this._active.notebook || !this._ids.has(this._active)) {
+            let notes = this.notes;
+            this._active = notes.length ? notes[notes.length - 1] : this._add(generateId(), '');
+        }
+        return this._active;
+    }
+
+    constructor(dirname: string) {
+        super();
+        this._dirname = dirname;
+    }
+
+    /**
+     * Restore buffers of last session, it's read synchronously so the scratch is ready at launch
+     */
+    loadSync() {
+        let index: IScratchIndex;
+        try {
+            index = readJsonSync(this._getIndexFile());
+        } catch (e) {
+            // no scratch written yet
+            return;
+        }
+
+        for (let id of index.buffers || []) {
+            try {
+                let content = readFileSync(this._getFilename(id), { encoding: 'utf8' });
+                this._written.set(id, content);
+                this._add(id, content);
+            } catch (e) {
+                ServiceLocator.logger.error(e);
+            }
+        }
+        this._recentNotebooks = index.recentNotebooks || [];
+
+        for (let [note, id] of this._ids) {
+            if (id === index.active) {
+                this._active = note;
+            }
+        }
+        this._indexWritten = JSON.stringify(this._dumpIndex());
+    }
+
+    start(interval: number = SCRATCH_INTERVAL) {
+        this.stop();
+        this._timer = setInterval(() => {
+            this.write().catch((e) => {
+                ServiceLocator.logger.error(e);
+            });
+        }, interval);
+    }
+
+    stop() {
+        clearInterval(this._timer);
+        this._timer = null;
+    }
+
+    /**
+     * Add a buffer, it's made the active one unless it's added in background
+     */
+    create(content: string = '', activate: boolean = true): Note {
+        let note = this._add(generateId(), content);
+        if (activate) {
+            this._active = note;
+        }
+        this.emit(Event.change);
+        return note;
+    }
+
+    activate(note: Note) {
+        if (!this._ids.has(note) || this._active === note) {
+            return;
+        }
+        this._active = note;
+        this.emit(Event.change);
+    }
+
+    /**
+     * Drop the buffer, its file is removed on next write
+     */
+    remove(note: Note) {
+        if (!this._ids.has(note)) {
+            return;
+        }
+
+        // the note could be filed already
+        let notes = Array.from(this._ids.keys()).filter((item) => item === note || !item.notebook);
+        let index = notes.indexOf(note);
+        this._ids.delete(note);
+        if (this._active === note) {
+            // the buffer next to it, or a new one if it's the last buffer
+            let rest = notes.filter((item) => item !== note);
+            this._active = rest.length ? rest[Math.min(index, rest.length - 1)] : this._add(generateId(), '');
+        }
+        this.emit(Event.change);
+    }
+
+    /**
+     * Header entry title of the buffer
+     */
+    getTitle(note: Note): string {
+        let title = findTitle(note.content);
+        if (title) {
+            return title.length > TITLE_LENGTH ? `${title.substr(0, TITLE_LENGTH)}…` : title;
+        }
+        return `Scratch ${this.notes.indexOf(note) + 1}`;
+    }
+
+    /**
+     * Remember the notebook as the latest used one
+     */
+    useNotebook(notebook: Notebook) {
+        let path = notebook.path.join(NOTEBOOK_PATH_SEP);
+        this._recentNotebooks = [path].concat(this._recentNotebooks.filter((item) => item !== path))
+            .slice(0, RECENT_NOTEBOOKS);
+    }
+
+    /**
+     * Paths of the notebooks used lately, the latest one goes first
+     */
+    getRecentNotebooks(): string[][] {
+        return this._recentNotebooks.map((path) => path.split(NOTEBOOK_PATH_SEP));
+    }
+
+    /**
+     * Write changed buffers and the index, files of dropped buffers are removed
+     */
+    write(): Promise<void> {
+        // a slow write is never overtaken by the next one
+        let write = this._writing.catch(() => {}).then(() => this._write());
+        this._writing = write;
+        return write;
+    }
+
+    /**
+     * Could be called while the window is closing
+     */
+    writeSync() {
+        let ids = new Set<string>();
+        for (let note of this.notes) {
+            let id = this._ids.get(note);
+            let content = note.content;
+
+            ids.add(id);
+            if (this._written.get(id) !== content) {
+                outputFileSync(this._getFilename(id), content);
+                this._written.set(id, content);
+            }
+        }
+
+        for (let id of Array.from(this._written.keys())) {
+            if (!ids.has(id)) {
+                removeSync(this._getFilename(id));
+                this._written.delete(id);
+            }
+        }
+
+        outputJsonSync(this._getIndexFile(), this._dumpIndex());
+    }
+
+    private _write(): Promise<void> {
+        let dirname = this._dirname;
+        let promises: Promise<void>[] = [];
+        let ids = new Set<string>();
+        // taken with the buffers, the index never lists buffers whose files are not written yet
+        let index = JSON.stringify(this._dumpIndex());
+
+        for (let note of this.notes) {
+            let id = this._ids.get(note);
+            let content = note.content;
+
+            ids.add(id);
+            if (this._written.get(id) !== content) {
+                promises.push(ensureDir(dirname).then(() => writeFile(this._getFilename(id), content)).then(() => {
+                    this._written.set(id, content);
+                }));
+            }
+        }
+
+        return Promise.all(promises).then(() => {
+            if (index === this._indexWritten) {
+                return;
+            }
+            return ensureDir(dirname).then(() => writeJson(this._getIndexFile(), JSON.parse(index))).then(() => {
+                this._indexWritten = index;
+            });
+        }).then(() => {
+            let removed = Array.from(this._written.keys()).filter((id) => !ids.has(id));
+            return Promise.all(removed.map((id) => remove(this._getFilename(id)).then(() => {
+                this._written.delete(id);
+            })));
+        }).then(() => {});
+    }
+
+    private _add(id: string, content: string): Note {
+        let note = new Note('');
+        note.content = content;
+        this._ids.set(note, id);
+        return note;
+    }
+
+    private _dumpIndex(): IScratchIndex {
+        let active = this._active && this._ids.has(this._active) ? this._ids.get(this._active) : null;
+        return {
+            buffers: this.notes.map((note) => this._ids.get(note)),
+            active,
+            recentNotebooks: this._recentNotebooks,
+        };
+    }
+
+    private _getIndexFile(): string {
+        return `${this._dirname}${pathSep}${INDEX_FILENAME}`;
+    }
+
+    private _getFilename(id: string): string {
+        return `${this._dirname}${pathSep}${id}.md`;
+    }
+}
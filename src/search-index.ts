@@ -0,0 +1,295 @@
+import { Note, Notebook } from './note';
+
+// split text on everything that is not a letter, a digit or an underscore
+const TOKEN_SPLIT_REG = /[^0-9a-z_\u00c0-\uffff]+/;
+const MAX_SNIPPET_LENGTH = 120;
+const MAX_RESULTS = 50;
+
+// weight of a term which only matches the prefix of an indexed term
+const PREFIX_MATCH_WEIGHT = 0.5;
+// weight of a term which matches the note name
+const NAME_MATCH_WEIGHT = 2;
+
+export interface ISearchResult {
+    note: Note;
+    score: number;
+    // line of the best matching content, starts from 1
+    line: number;
+    snippet: string;
+    // query terms used to highlight the snippet
+    terms: string[];
+}
+
+interface IIndexedNote {
+    lines: string[];
+    // term -> lines containing the term
+    terms: Map<string, number[]>;
+    // terms of the note name when it's indexed
+    nameTerms: string[];
+}
+
+export function tokenize(text: string): string[] {
+    return text.toLocaleLowerCase().split(TOKEN_SPLIT_REG).filter((term) => term.length > 0);
+}
+
+function getSnippet(line: string, terms: string[]): string {
+    let text = line.trim();
+    if (text.length <= MAX_SNIPPET_LENGTH) {
+        return text;
+    }
+
+    // center snippet around the first matching term
+    let lowerText = text.toLocaleLowerCase();
+    let start = 0;
+    for (const term of terms) {
+        let pos = lowerText.indexOf(term);
+        if (pos !== -1) {
+            start = Math.max(0, pos - MAX_SNIPPET_LENGTH / 4);
+            break;
+        }
+    }
+
+    let snippet = text.substr(start, MAX_SNIPPET_LENGTH);
+    return `${start ? '…' : ''}${snippet}${start + MAX_SNIPPET_LENGTH < text.length ? '…' : ''}`;
+}
+
+/**
+ * Notes of the terms, terms are kept sorted so the ones sharing a prefix are found by binary search
+ */
+class Postings {
+    // term -> notes containing the term
+    private _notes: Map<string, Set<Note>> = new Map();
+    private _terms: string[] = [];
+
+    add(term: string, note: Note) {
+        let notes = this._notes.get(term);
+        if (!notes) {
+            this._notes.set(term, notes = new Set());
+            this._terms.splice(this._lowerBound(term), 0, term);
+        }
+        notes.add(note);
+    }
+
+    remove(term: string, note: Note) {
+        let notes = this._notes.get(term);
+        if (!notes) {
+            return;
+        }
+
+        notes.delete(note);
+        if (!notes.size) {
+            this._notes.delete(term);
+            this._terms.splice(this._lowerBound(term), 1);
+        }
+    }
+
+    clear() {
+        this._notes.clear();
+        this._terms = [];
+    }
+
+    /**
+     * Terms starting with the prefix and their notes
+     */
+    *findPrefix(prefix: string): IterableIterator<[string, Set<Note>]> {
+        let terms = this._terms;
+        for (let i = this._lowerBound(prefix); i < terms.length && terms[i].startsWith(prefix); i++) {
+            yield [terms[i], this._notes.get(terms[i])];
+        }
+    }
+
+    // index of the first term not less than the given one
+    private _lowerBound(term: string): number {
+        let terms = this._terms;
+        let low = 0, high = terms.length;
+        while (low < high) {
+            let mid = (low + high) >>> 1;
+            if (terms[mid] < term) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+}
+
+/**
+ * Inverted index of note contents
+ */
+export class SearchIndex {
+    private _postings: Postings = new Postings();
+    // terms of the note names
+    private _namePostings: Postings = new Postings();
+    private _notes: Map<Note, IIndexedNote> = new Map();
+
+    get size(): number {
+        return this._notes.size;
+    }
+
+    add(note: Note, content: string) {
+        this.remove(note);
+
+        let lines = content.split(/\r?\n/);
+        let terms = new Map<string, number[]>();
+
+        lines.forEach((line, i) => {
+            for (const term of tokenize(line)) {
+                let termLines = terms.get(term);
+                if (!termLines) {
+                    terms.set(term, termLines = []);
+                }
+                termLines.push(i + 1);
+            }
+        });
+
+        for (const term of terms.keys()) {
+            this._postings.add(term, note);
+        }
+
+        let nameTerms = Array.from(new Set(tokenize(note.name)));
+        for (const term of nameTerms) {
+            this._namePostings.add(term, note);
+        }
+
+        this._notes.set(note, { lines, terms, nameTerms });
+    }
+
+    /**
+     * Index the new name of the renamed note
+     */
+    updateName(note: Note) {
+        let indexed = this._notes.get(note);
+        if (!indexed) {
+            return;
+        }
+
+        for (const term of indexed.nameTerms) {
+            this._namePostings.remove(term, note);
+        }
+        indexed.nameTerms = Array.from(new Set(tokenize(note.name)));
+        for (const term of indexed.nameTerms) {
+            this._namePostings.add(term, note);
+        }
+    }
+
+    remove(note: Note) {
+        let indexed = this._notes.get(note);
+        if (!indexed) {
+            return;
+        }
+
+        for (const term of indexed.terms.keys()) {
+            this._postings.remove(term, note);
+        }
+        for (const term of indexed.nameTerms) {
+            this._namePostings.remove(term, note);
+        }
+
+        this._notes.delete(note);
+    }
+
+    removeNotebook(notebook: Notebook) {
+        for (const note of Array.from(this._notes.keys())) {
+            if (notebook.contains(note.notebook)) {
+                this.remove(note);
+            }
+        }
+    }
+
+    clear() {
+        this._postings.clear();
+        this._namePostings.clear();
+        this._notes.clear();
+    }
+
+    search(query: string, limit: number = MAX_RESULTS): ISearchResult[] {
+        let queryTerms = tokenize(query);
+        if (!queryTerms.length) {
+            return [];
+        }
+
+        let total = this._notes.size;
+        // note -> score
+        let scores = new Map<Note, number>();
+        // note -> matched index terms
+        let matches = new Map<Note, Set<string>>();
+
+        for (let i = 0; i < queryTerms.length; i++) {
+            let queryTerm = queryTerms[i];
+            // note -> weighted term frequency of the query term
+            let frequencies = new Map<Note, number>();
+
+            for (const [term, notes] of this._postings.findPrefix(queryTerm)) {
+                let weight = term === queryTerm ? 1 : PREFIX_MATCH_WEIGHT;
+                for (const note of notes) {
+                    let termLines = this._notes.get(note).terms.get(term);
+                    frequencies.set(note, (frequencies.get(note) || 0) + weight * termLines.length);
+
+                    if (!matches.has(note)) {
+                        matches.set(note, new Set());
+                    }
+                    matches.get(note).add(term);
+                }
+            }
+
+            // note names are not part of the content, but should match as well
+            let nameMatches = new Set<Note>();
+            for (const [, notes] of this._namePostings.findPrefix(queryTerm)) {
+                notes.forEach((note) => nameMatches.add(note));
+            }
+            for (const note of nameMatches) {
+                frequencies.set(note, (frequencies.get(note) || 0) + NAME_MATCH_WEIGHT);
+            }
+
+            let idf = Math.log(1 + total / (frequencies.size || 1));
+            // all query terms are required
+            let candidates = i === 0 ? Array.from(frequencies.keys()) : Array.from(scores.keys());
+            scores = new Map(candidates.filter((note) => frequencies.has(note)).map((note): [Note, number] => {
+                return [note, (scores.get(note) || 0) + (1 + Math.log(frequencies.get(note))) * idf];
+            }));
+        }
+
+        let results: ISearchResult[] = [];
+        for (const [note, score] of scores) {
+            let line = this._getBestLine(note, matches.get(note));
+            results.push({
+                note,
+                score,
+                line,
+                snippet: line ? getSnippet(this._notes.get(note).lines[line - 1], queryTerms) : '',
+                terms: queryTerms,
+            });
+        }
+
+        return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+
+    /**
+     * Find out the first line which contains most of the matched terms
+     */
+    private _getBestLine(note: Note, terms: Set<string>): number {
+        if (!terms) {
+            // only the note name matches
+            return 0;
+        }
+
+        let indexed = this._notes.get(note);
+        let lineCounts = new Map<number, number>();
+        for (const term of terms) {
+            // count each line once per term
+            for (const line of new Set(indexed.terms.get(term))) {
+                lineCounts.set(line, (lineCounts.get(line) || 0) + 1);
+            }
+        }
+
+        let bestLine = 0, bestCount = 0;
+        for (const [line, count] of lineCounts) {
+            if (count > bestCount || count === bestCount && line < bestLine) {
+                bestLine = line;
+                bestCount = count;
+            }
+        }
+        return bestLine;
+    }
+}
@@ -6,6 +6,7 @@ import { Config } from './config';
 import { Dialog } from './dialog';
 import { Git } from './git';
 import { Log } from './log';
+import { KeyRing } from './encryption';
 import { checkRendererProcess, checkMainProcess } from './utils';
 
 let config: Config;
@@ -16,6 +17,7 @@ let alerter: Alerter;
 let dialog: Dialog;
 let git: Git;
 let logger: Log;
+let keyRing: KeyRing;
 
 const ServiceLocator = {
     get config(): Config {
@@ -85,6 +87,14 @@ const ServiceLocator = {
         }
         return logger;
     },
+
+    get keyRing(): KeyRing {
+        if (!keyRing) {
+            let KeyRing = require('./encryption').KeyRing;
+            keyRing = new KeyRing();
+        }
+        return keyRing;
+    },
 };
 
 export default ServiceLocator;
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { Note, Notebook } from './note';
+import { parseFrontMatter, setFrontMatter } from './front-matter';
+
+// code blocks and inline codes, tags inside them are ignored
+const CODE_REG = /(^|\n)(```|~~~)[\s\S]*?(\n\2[^\n]*(?=\n|$)|$)|`[^`\n]*`/g;
+// `#tag` which starts with a letter, `# heading` and `#1` are not tags
+const TAG_WORD_CHAR = '[0-9A-Za-z_\\u00c0-\\uffff]';
+const TAG_CHAR = '[0-9A-Za-z_\\-/\\u00c0-\\uffff]';
+const TAG_LEAD_CHAR = '[A-Za-z_\\u00c0-\\uffff]';
+const INLINE_TAG_REG = new RegExp(`(^|[\\s(\\[,])#(${TAG_LEAD_CHAR}${TAG_CHAR}*)`, 'g');
+
+function escapeRegExp(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Call mapper on each part of the text which is not code
+ */
+function mapTextSegments(text: string, mapper: (segment: string) => string): string {
+    let result = '';
+    let lastIndex = 0;
+    let matches: RegExpExecArray;
+
+    CODE_REG.lastIndex = 0;
+    while ((matches = CODE_REG.exec(text)) !== null) {
+        result += mapper(text.substring(lastIndex, matches.index)) + matches[0];
+        lastIndex = matches.index + matches[0].length;
+
+        // avoid infinite loop on empty match
+        if (!matches[0].length) {
+            CODE_REG.lastIndex++;
+        }
+    }
+
+    return result + mapper(text.substr(lastIndex));
+}
+
+export function isValidTag(tag: string): boolean {
+    return new RegExp(`^${TAG_LEAD_CHAR}${TAG_CHAR}*$`).test(tag);
+}
+
+/**
+ * Extract tags from front-matter and inline `#tag`s
+ */
+export function extractTags(content: string): string[] {
+    let frontMatter = parseFrontMatter(content);
+    let tags = new Set<string>(frontMatter.metadata.tags || []);
+
+    mapTextSegments(frontMatter.body, (segment) => {
+        let matches: RegExpExecArray;
+
+        INLINE_TAG_REG.lastIndex = 0;
+        while ((matches = INLINE_TAG_REG.exec(segment)) !== null) {
+            // trailing slashes and dashes are not part of the tag
+            tags.add(matches[2].replace(/[\-/]+$/, ''));
+        }
+        return segment;
+    });
+
+    return Array.from(tags);
+}
+
+/**
+ * Replace tag in front-matter and inline `#tag`s
+ */
+export function replaceTag(content: string, oldTag: string, newTag: string): string {
+    let frontMatter = parseFrontMatter(content);
+    let metadata = frontMatter.metadata;
+    // `#old/sub` and `#older` should not be replaced
+    let reg = new RegExp(`(^|[\\s(\\[,])#${escapeRegExp(oldTag)}(?!${TAG_WORD_CHAR}|[\\-/]+${TAG_WORD_CHAR})`, 'g');
+
+    let body = mapTextSegments(frontMatter.body, (segment) => {
+        return segment.replace(reg, `$1#${newTag}`);
+    });
+
+    if (metadata.tags && metadata.tags.indexOf(oldTag) !== -1) {
+        // keep tags unique
+        metadata.tags = Array.from(new Set(metadata.tags.map((tag) => tag === oldTag ? newTag : tag)));
+        return setFrontMatter(body, metadata);
+    }
+
+    return frontMatter.lines ? content.substr(0, content.length - frontMatter.body.length) + body : body;
+}
+
+/**
+ * Index of the tags carried by notes
+ */
+export class TagIndex {
+    // tag -> notes carrying the tag
+    private _tags: Map<string, Set<Note>> = new Map();
+    private _notes: Map<Note, string[]> = new Map();
+
+    get tags(): Map<string, number> {
+        let counts = new Map<string, number>();
+        for (const [tag, notes] of this._tags) {
+            counts.set(tag, notes.size);
+        }
+        return counts;
+    }
+
+    getNotes(tag: string): Note[] {
+        return Array.from(this._tags.get(tag) || []);
+    }
+
+    hasTag(note: Note, tag: string): boolean {
+        let notes = this._tags.get(tag);
+        return notes ? notes.has(note) : false;
+    }
+
+    /**
+     * Index the note, return whether tags of the note changed
+     */
+    add(note: Note, content: string): boolean {
+        let tags = extractTags(content).sort();
+        let oldTags = this._notes.get(note);
+
+        if (oldTags && oldTags.join('\n') === tags.join('\n')) {
+            return false;
+        }
+
+        this.remove(note);
+        for (const tag of tags) {
+            let notes = this._tags.get(tag);
+            if (!notes) {
+                this._tags.set(tag, notes = new Set());
+            }
+            notes.add(note);
+        }
+        this._notes.set(note, tags);
+
+        return tags.length !== 0 || (oldTags && oldTags.length !== 0);
+    }
+
+    remove(note: Note): boolean {
+        let tags = this._notes.get(note);
+        if (!tags) {
+            return false;
+        }
+
+        for (const tag of tags) {
+            let notes = this._tags.get(tag);
+            notes.delete(note);
+            if (!notes.size) {
+                this._tags.delete(tag);
+            }
+        }
+        this._notes.delete(note);
+
+        return tags.length !== 0;
+    }
+
+    removeNotebook(notebook: Notebook): boolean {
+        let changed = false;
+        for (const note of Array.from(this._notes.keys())) {
+            if (notebook.contains(note.notebook)) {
+                changed = this.remove(note) || changed;
+            }
+        }
+        return changed;
+    }
+
+    clear() {
+        this._tags.clear();
+        this._notes.clear();
+    }
+}
@@ -0,0 +1,77 @@
+import { sep as pathSep, extname, basename } from 'path';
+import { readdir, readFile, exists } from 'fs-promise';
+import * as moment from 'moment';
+
+// templates of new notes are kept in this directory of the note directory
+export const TEMPLATES_DIRNAME = '.templates';
+// where the cursor is placed when the note is opened
+export const CURSOR_MARKER = '{{cursor}}';
+
+const TEMPLATE_EXT = '.md';
+const PLACEHOLDER_REG = /\{\{\s*(date|time|title|notebook)\s*\}\}/g;
+
+export interface ITemplateVariables {
+    title: string;
+    notebook: string;
+    // date and time filled in, now if not given
+    date?: moment.Moment;
+}
+
+export interface ITemplateResult {
+    content: string;
+    // offset of the cursor marker, -1 if the template has no marker
+    cursor: number;
+}
+
+export function isTemplatesDirname(name: string): boolean {
+    return name === TEMPLATES_DIRNAME;
+}
+
+export function getTemplatesDirname(basedir: string): string {
+    return `${basedir}${pathSep}${TEMPLATES_DIRNAME}`;
+}
+
+/**
+ * Names of the templates, file names without extension
+ */
+export function listTemplates(basedir: string): Promise<string[]> {
+    let dirname = getTemplatesDirname(basedir);
+
+    return exists(dirname).then((found: boolean) => {
+        return found ? readdir(dirname) : Promise.resolve([]);
+    }).then((names: string[]) => {
+        return names.filter((name) => name[0] !== '.' && extname(name) === TEMPLATE_EXT)
+            .map((name) => basename(name, TEMPLATE_EXT))
+            .sort();
+    });
+}
+
+export function readTemplate(basedir: string, name: string): Promise<string> {
+    return readFile(`${getTemplatesDirname(basedir)}${pathSep}${name}${TEMPLATE_EXT}`, { encoding: 'utf8' });
+}
+
+/**
+ * Replace placeholders of the template, the body is inserted at the cursor marker or appended
+ */
+export function fillTemplate(template: string, variables: ITemplateVariables, body: string = ''): ITemplateResult {
+    let now = variables.date || moment();
+    let values = {
+        date: now.format('YYYY-MM-DD'),
+        time: now.format('HH:mm'),
+        title: variables.title,
+        notebook: variables.notebook,
+    };
+
+    let content = template.replace(PLACEHOLDER_REG, (placeholder: string, name: string) => values[name]);
+    let cursor = content.indexOf(CURSOR_MARKER);
+
+    if (cursor === -1) {
+        content = body ? `${content.replace(/\n*$/, '\n\n')}${body}` : content;
+    } else {
+        // only the first marker counts
+        let rest = content.substr(cursor + CURSOR_MARKER.length).split(CURSOR_MARKER).join('');
+        content = content.substr(0, cursor) + body + rest;
+        cursor += body.length;
+    }
+    return { content, cursor };
+}
@@ -0,0 +1,206 @@
+import { sep as pathSep, basename, dirname } from 'path';
+import { readJson, writeJson, move, remove, exists, ensureDir } from 'fs-promise';
+import ServiceLocator from './service-locator';
+import { INotebookIndex } from './note-manager';
+import { ASSETS_DIRNAME } from './attachments';
+import * as moment from 'moment';
+
+const TRASH_DIRNAME = '.trash';
+const TRASH_INDEX_FILENAME = 'index.json';
+
+export interface ITrashItem {
+    id: string;
+    type: 'note' | 'notebook';
+    name: string;
+    // names of the notebooks where the item was, from the top level notebook
+    path: string[];
+    // ISO 8601 date string
+    deletedAt: string;
+    // notes and sub notebooks of a deleted notebook
+    index?: INotebookIndex;
+    // file names of the attachments deleted along with a note
+    attachments?: string[];
+}
+
+function getTrashDirname(): string {
+    return `${ServiceLocator.noteManager.basedir}${pathSep}${TRASH_DIRNAME}`;
+}
+
+function getItemPathname(item: ITrashItem): string {
+    return `${getTrashDirname()}${pathSep}${item.id}`;
+}
+
+function getItemAssetsDirname(item: ITrashItem): string {
+    return `${getItemPathname(item)}.${ASSETS_DIRNAME}`;
+}
+
+function generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+}
+
+/**
+ * Deleted notes and notebooks kept in the note directory
+ */
+export class Trash {
+    private _items: ITrashItem[] = [];
+
+    get items(): ITrashItem[] {
+        return this._items.slice();
+    }
+
+    get size(): number {
+        return this._items.length;
+    }
+
+    static isTrashDirname(name: string): boolean {
+        return name === TRASH_DIRNAME;
+    }
+
+    load(): Promise<void> {
+        let indexFile = this._getIndexFile();
+
+        return exists(indexFile).then((exists: boolean) => {
+            return exists ? readJson(indexFile) : Promise.resolve([]);
+        }).then((items: ITrashItem[]) => {
+            this._items = items;
+        });
+    }
+
+    get(id: string): ITrashItem {
+        for (let item of this._items) {
+            if (item.id === id) {
+                return item;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Move file or directory into trash, attachments of a note are moved along
+     */
+    put(pathname: string, type: 'note' | 'notebook', name: string, path: string[], index?: INotebookIndex,
+        attachments: string[] = []): Promise<ITrashItem> {
+        let item: ITrashItem = {
+            id: generateId(),
+            type,
+            name,
+            path,
+            deletedAt: moment().format(),
+        };
+        if (index) {
+            item.index = index;
+        }
+        if (attachments.length) {
+            item.attachments = attachments.map((attachment) => basename(attachment));
+        }
+
+        return ensureDir(getTrashDirname()).then(() => {
+            return exists(pathname);
+        }).then((found: boolean) => {
+            // unsaved note or empty notebook has nothing on the disk
+            return found ? move(pathname, getItemPathname(item)) : Promise.resolve();
+        }).then(() => {
+            return Promise.all(attachments.map((attachment) => {
+                return move(attachment, `${getItemAssetsDirname(item)}${pathSep}${basename(attachment)}`);
+            }));
+        }).then(() => {
+            this._items.push(item);
+            return this._save();
+        }).then(() => {
+            return item;
+        });
+    }
+
+    /**
+     * Move item out of trash
+     */
+    restore(item: ITrashItem, pathname: string): Promise<void> {
+        let itemPathname = getItemPathname(item);
+
+        return exists(pathname).then((occupied: boolean) => {
+            if (occupied) {
+                throw new Error(`Cannot restore ${item.name} cause ${pathname} already exists`);
+            }
+            return exists(itemPathname);
+        }).then((found: boolean) => {
+            return found ? move(itemPathname, pathname) : Promise.resolve();
+        }).then(() => {
+            return this._restoreAttachments(item, `${dirname(pathname)}${pathSep}${ASSETS_DIRNAME}`);
+        }).then(() => {
+            return this._drop(item);
+        });
+    }
+
+    /**
+     * Delete item permanently
+     */
+    remove(item: ITrashItem): Promise<void> {
+        return remove(getItemPathname(item)).then(() => {
+            return remove(getItemAssetsDirname(item));
+        }).then(() => {
+            return this._drop(item);
+        });
+    }
+
+    empty(): Promise<void> {
+        return remove(getTrashDirname()).then(() => {
+            this._items = [];
+        });
+    }
+
+    /**
+     * Delete items which are deleted more than days ago
+     */
+    purge(days: number): Promise<ITrashItem[]> {
+        if (!days) {
+            return Promise.resolve([]);
+        }
+
+        let expiredAt = moment().subtract(days, 'days');
+        let expiredItems = this._items.filter((item) => moment(item.deletedAt).isBefore(expiredAt));
+
+        return Promise.all(expiredItems.map((item) => {
+            return remove(getItemPathname(item)).then(() => remove(getItemAssetsDirname(item)));
+        })).then(() => {
+            this._items = this._items.filter((item) => expiredItems.indexOf(item) === -1);
+            return expiredItems.length ? this._save() : Promise.resolve();
+        }).then(() => {
+            return expiredItems;
+        });
+    }
+
+    /**
+     * Attachments whose name is taken in the meantime are left in trash
+     */
+    private _restoreAttachments(item: ITrashItem, assetsDirname: string): Promise<void> {
+        let promise: Promise<any> = Promise.resolve();
+
+        (item.attachments || []).forEach((name) => {
+            let source = `${getItemAssetsDirname(item)}${pathSep}${name}`;
+            let target = `${assetsDirname}${pathSep}${name}`;
+
+            promise = promise.then(() => {
+                return Promise.all([exists(source), exists(target)]);
+            }).then(([found, occupied]) => {
+                return found && !occupied ? move(source, target) : Promise.resolve();
+            });
+        });
+
+        return promise.then(() => {});
+    }
+
+    private _drop(item: ITrashItem): Promise<void> {
+        this._items = this._items.filter((trashItem) => trashItem !== item);
+        return this._save();
+    }
+
+    private _getIndexFile(): string {
+        return `${getTrashDirname()}${pathSep}${TRASH_INDEX_FILENAME}`;
+    }
+
+    private _save(): Promise<void> {
+        return ensureDir(getTrashDirname()).then(() => {
+            return writeJson(this._getIndexFile(), this._items, { flag: 'w' });
+        });
+    }
+}
@@ -4,6 +4,7 @@ import { MainView } from './views/main';
 import { MessageView } from './views/message';
 import { SettingsView } from './views/settings';
 import { ModalView } from './views/modal';
+import { SearchView } from './views/search';
 
 let header: HeaderView;
 let notebookList: NotebookListView;
@@ -11,6 +12,7 @@ let main: MainView;
 let message: MessageView;
 let settings: SettingsView;
 let modal: ModalView;
+let search: SearchView;
 
 const ViewManager = {
     get header(): HeaderView {
@@ -55,6 +57,13 @@ const ViewManager = {
         return modal;
     },
 
+    get search(): SearchView {
+        if (!search) {
+            search = new SearchView();
+        }
+        return search;
+    },
+
     load() {
         Object.getOwnPropertyNames(this).forEach((name: string) => {
             if (name !== 'load') {
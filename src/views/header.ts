@@ -2,9 +2,16 @@ import { AbstractView } from './view';
 import { App } from '../app';
 import ServiceLocator from '../service-locator';
 import { IpcEvent as NoteManagerIpcEvent, Event as NoteManagerEvent } from '../note-manager';
-import { ipcRenderer } from 'electron';
+import { Event as ScratchpadEvent } from '../scratchpad';
+import { Event as EditorEvent } from '../editor';
+import { Note } from '../note';
+import { Event as ConfigEvent } from '../config';
+import { ipcRenderer, remote } from 'electron';
+
+const { Menu, getCurrentWindow } = remote;
 
 const CLASS_SPIN = 'fa-spin';
+const CLASS_ACTIVE = 'active';
 
 const quickAccessers = {
     readNote: {
@@ -32,6 +39,16 @@ const quickAccessers = {
         icon: 'fa fa-floppy-o',
         title: 'Save note'
     },
+    openTodayJournal: {
+        handler: 'openTodayJournal',
+        icon: 'fa fa-calendar-check-o',
+        title: "Open today's journal"
+    },
+    showJournalCalendar: {
+        handler: 'showJournalCalendar',
+        icon: 'fa fa-calendar',
+        title: 'Journal calendar'
+    },
     syncNotes: {
         handler: (event) => {
             let el = $(event.currentTarget).find('i');
@@ -58,7 +75,27 @@ function accesserHtml(command: string, icon: string, title: string) {
 </li>`;
 }
 
+const LIBRARY_HTML = `<div class="library" title="Switch library">
+    <a href="javascript:void(0)"><i class="fa fa-book"></i> <span class="library-name"></span> <i class="fa fa-caret-down"></i></a>
+</div>`;
+
+const NEW_SCRATCH_HTML = `
+<li class="new-scratch" title="New scratch">
+    <a href="javascript:void(0)"><i class="fa fa-plus"></i></a>
+</li>`;
+
+const SCRATCH_HTML = `
+<li class="scratch">
+    <a class="scratch-title" href="javascript:void(0)"></a>
+    <a class="scratch-close" href="javascript:void(0)" title="Close scratch"><i class="fa fa-times"></i></a>
+</li>`;
+
 export class HeaderView extends AbstractView {
+    // entries of scratches, they're kept until filed as notes or closed
+    private _scratchesEl: JQuery;
+    private _scratches: Map<Note, JQuery> = new Map();
+    private _activeNote: Note = null;
+
     constructor() {
         super('#header');
     }
@@ -71,8 +108,11 @@ export class HeaderView extends AbstractView {
         }
 
         this._el.append(SETTING_HTML);
+        this._el.append(LIBRARY_HTML);
 
         let app = App.getInstance();
+        this._initScratches(app);
+        this._initLibraries(app);
         this._el.on('click', '> nav > ul .nav-item', (event) => {
             let name = event.currentTarget.getAttribute('_data');
             let handler = quickAccessers[name].handler;
@@ -101,6 +141,120 @@ export class HeaderView extends AbstractView {
         });
     }
 
+    /**
+     * Highlight the entry of the scratch if it's the open note
+     */
+    setActiveNote(note: Note) {
+        this._activeNote = note;
+        for (let [scratch, el] of this._scratches) {
+            el.toggleClass(CLASS_ACTIVE, scratch === note);
+        }
+    }
+
+    private _initScratches(app: App) {
+        let scratchpad = ServiceLocator.noteManager.scratchpad;
+        this._scratchesEl = $('<ul class="scratches">').appendTo(this._el.find('> nav'));
+        this._renderScratches();
+
+        scratchpad.on(ScratchpadEvent.change, () => {
+            this._renderScratches();
+        });
+        // filed scratch is gone from the header, it's back if filing fails
+        ServiceLocator.noteManager.on(NoteManagerEvent.note_created, () => {
+            this._renderScratches();
+        });
+        ServiceLocator.noteManager.on(NoteManagerEvent.create_note_failed, () => {
+            this._renderScratches();
+        });
+        ServiceLocator.editor.on(EditorEvent.change, (note: Note) => {
+            let el = this._scratches.get(note);
+            if (el) {
+                el.find('.scratch-title').text(scratchpad.getTitle(note));
+            }
+        });
+
+        this._scratchesEl.on('click', '.scratch-title', (event) => {
+            app.execCommand('openScratch', this._findScratch(event.currentTarget));
+        });
+        this._scratchesEl.on('click', '.scratch-close', (event) => {
+            app.execCommand('closeScratch', this._findScratch(event.currentTarget));
+        });
+        this._scratchesEl.on('click', '.new-scratch', () => {
+            app.execCommand('newScratch');
+        });
+    }
+
+    private _initLibraries(app: App) {
+        let config = ServiceLocator.config;
+        let nameEl = this._el.find('.library-name');
+
+        nameEl.text(config.library || 'No library');
+        config.on(ConfigEvent.change, (name) => {
+            if (name === 'library' || name === 'libraries' || name === 'noteDir') {
+                nameEl.text(config.library || 'No library');
+            }
+        });
+
+        this._el.on('click', '.library', () => {
+            let current = config.library;
+            let names = config.libraries.map((library) => library.name);
+            let item = (name: string): Electron.MenuItemOptions => {
+                return {
+                    label: name,
+                    type: 'radio',
+                    checked: name === current,
+                    click: () => {
+                        app.execCommand('switchLibrary', name);
+                    },
+                };
+            };
+
+            // recently used libraries go first, then the others by name
+            let recent = config.recentLibraries.filter((name) => names.indexOf(name) !== -1);
+            let others = names.filter((name) => recent.indexOf(name) === -1).sort();
+            let items = recent.map(item);
+            if (recent.length && others.length) {
+                items.push({ type: 'separator' });
+            }
+            items = items.concat(others.map(item));
+            if (items.length) {
+                items.push({ type: 'separator' });
+            }
+            items.push({
+                label: 'Manage Libraries…',
+                click: () => {
+                    app.execCommand('manageLibraries');
+                },
+            });
+
+            Menu.buildFromTemplate(items).popup(getCurrentWindow());
+        });
+    }
+
+    private _renderScratches() {
+        let scratchpad = ServiceLocator.noteManager.scratchpad;
+
+        this._scratchesEl.empty();
+        this._scratches.clear();
+        for (let note of scratchpad.notes) {
+            let el = $(SCRATCH_HTML).appendTo(this._scratchesEl);
+            el.find('.scratch-title').text(scratchpad.getTitle(note));
+            el.toggleClass(CLASS_ACTIVE, note === this._activeNote);
+            this._scratches.set(note, el);
+        }
+        this._scratchesEl.append(NEW_SCRATCH_HTML);
+    }
+
+    private _findScratch(target: Element): Note {
+        let li = $(target).closest('li')[0];
+        for (let [note, el] of this._scratches) {
+            if (el[0] === li) {
+                return note;
+            }
+        }
+        return null;
+    }
+
     startSyncSpin() {
         let el = this._el.find('[_data=syncNotes]').find('i');
         if (!el.hasClass(CLASS_SPIN)) {
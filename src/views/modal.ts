@@ -7,8 +7,12 @@ const basedir = `${__dirname}${sep}templates${sep}modals${sep}`;
 const FADE_IN_CLASS = 'zoomIn';
 const FADE_OUT_CLASS = 'zoomOut';
 
+export const Event = {
+    close: 'modal:close',
+};
+
 export interface IModalHandler {
-    (el: JQuery, modelView: ModalView): void
+    (el: JQuery, modelView: ModalView, ...args): void
 }
 
 export class ModalView extends AbstractView {
@@ -19,7 +23,7 @@ export class ModalView extends AbstractView {
         this._el.keyup()
     }
 
-    open(name: string) {
+    open(name: string, ...args) {
         readFile(`${basedir}${name}.html`, { encoding: 'utf8' }).then((html) => {
             let handler: IModalHandler = require(`./modals/${name}`).default;
             let el = $(html);
@@ -45,7 +49,7 @@ export class ModalView extends AbstractView {
             // set dialog postion
             el.css({ marginTop: window.innerHeight * 0.3 });
 
-            handler(el, this);
+            handler(el, this, ...args);
 
             // show & focus
             this._el.show().focus();
@@ -66,6 +70,8 @@ export class ModalView extends AbstractView {
         this._el.removeClass('open');
         this._el.off('keyup');
 
+        this.emit(Event.close);
+
         setTimeout(() => {
             this._el.hide().empty();
         }, 300);
@@ -0,0 +1,58 @@
+import { ModalView } from '../modal';
+import { AllHtmlEntities } from 'html-entities';
+import ServiceLoactor from '../../service-locator';
+import { NOTEBOOK_PATH_SEP } from '../../note';
+import { IReconcileReport, IReconcileItem } from '../../index-reconciler';
+import { basename } from 'path';
+
+const entities = new AllHtmlEntities();
+
+function itemPath(item: IReconcileItem): string {
+    return item.path.concat(item.name).join(NOTEBOOK_PATH_SEP);
+}
+
+function itemHtml(icon: string, text: string, detail: string = ''): string {
+    return `
+<li>
+    <i class="fa ${icon}"></i> ${entities.encode(text)}
+    ${detail ? `<small class="text-muted">${entities.encode(detail)}</small>` : ''}
+</li>`;
+}
+
+function typeIcon(item: IReconcileItem): string {
+    return item.type === 'notebook' ? 'fa-book' : 'fa-file-text-o';
+}
+
+export default function (el: JQuery, modalView: ModalView, report: IReconcileReport) {
+    let render = (name: string, items: string[]) => {
+        let sectionEl = el.find(`.report-section[_data="${name}"]`);
+        if (!items.length) {
+            sectionEl.hide();
+            return;
+        }
+        sectionEl.find('.count').text(items.length);
+        sectionEl.find('.report-items').append(items.join(''));
+    };
+
+    render('untracked', report.untrackedNotebooks.concat(report.untrackedNotes).map((item) => {
+        return itemHtml(typeIcon(item), itemPath(item));
+    }));
+    render('mismatches', report.mismatches.concat(report.untrackedNotebooks, report.untrackedNotes).filter((item) => {
+        return item.pathname !== item.expectedPathname;
+    }).map((item) => {
+        return itemHtml(typeIcon(item), basename(item.pathname), `→ ${basename(item.expectedPathname)}`);
+    }));
+    render('missing', report.missingNotes.map((note) => {
+        return itemHtml('fa-file-text-o', note.notebook.path.concat(note.name).join(NOTEBOOK_PATH_SEP));
+    }));
+    render('conflicts', report.conflicts.map((pathname) => itemHtml('fa-exclamation-triangle', pathname)));
+
+    el.on('click', 'button.cancel', () => {
+        modalView.close();
+    });
+
+    el.on('click', 'button.apply', () => {
+        ServiceLoactor.noteManager.reconcile(report, el.find('input.drop-missing').is(':checked'));
+        modalView.close();
+    });
+}
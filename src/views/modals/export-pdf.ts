@@ -0,0 +1,80 @@
+import { ModalView } from '../modal';
+import ServiceLoactor from '../../service-locator';
+import { Note } from '../../note';
+import { IPdfOptions } from '../../config';
+import { PAGE_SIZES, exportPdf, printNotes } from '../../pdf-exporter';
+import { remote } from 'electron';
+import { join } from 'path';
+
+/**
+ * Export the notes into a pdf file or print them, options are kept in config
+ */
+export default function (el: JQuery, modalView: ModalView, notes: Note[], title: string, defaultName: string) {
+    let config = ServiceLoactor.config.pdf;
+    let options = config.options;
+    let pageSizeEl = el.find('select.page-size');
+    let marginEl = el.find('input.margin');
+
+    let readOptions = (): IPdfOptions => {
+        let result = Object.assign({}, options, {
+            pageSize: pageSizeEl.val(),
+            margin: Math.max(0, parseFloat(marginEl.val()) || 0),
+        });
+        el.find('.options input').each((i, input: HTMLInputElement) => {
+            result[input.getAttribute('_data')] = input.checked;
+        });
+        return result;
+    };
+
+    let setBusy = (text: string) => {
+        el.find('.status-text').text(text);
+        el.find('button').prop('disabled', !!text);
+    };
+
+    let run = (text: string, job: (options: IPdfOptions) => Promise<any>) => {
+        let newOptions = readOptions();
+        config.options = newOptions;
+
+        setBusy(text);
+        job(newOptions).then(() => {
+            modalView.close();
+        }, (e) => {
+            setBusy('');
+            ServiceLoactor.logger.error(e);
+            ServiceLoactor.alerter.fatal(`Cannot export ${title}, ${e.message}`);
+        });
+    };
+
+    el.find('.export-title').text(notes.length > 1 ? `${title} (${notes.length} notes)` : title);
+    for (const pageSize of Object.keys(PAGE_SIZES)) {
+        pageSizeEl.append($('<option>').val(pageSize).text(pageSize));
+    }
+    pageSizeEl.val(options.pageSize);
+    marginEl.val(options.margin);
+    el.find('.options input').each((i, input: HTMLInputElement) => {
+        input.checked = !!options[input.getAttribute('_data')];
+    });
+
+    el.on('click', 'button.cancel', () => {
+        modalView.close();
+    });
+
+    el.on('click', 'button.print', () => {
+        run('Preparing pages…', (newOptions: IPdfOptions) => printNotes(notes, newOptions, title));
+    });
+
+    el.on('click', 'button.apply', () => {
+        let filename: string = remote.dialog.showSaveDialog(remote.getCurrentWindow(), {
+            title: 'Export as PDF',
+            defaultPath: join(remote.app.getPath('documents'), `${defaultName}.pdf`),
+            filters: [{ name: 'PDF', extensions: ['pdf'] }],
+        });
+        if (!filename) {
+            return;
+        }
+
+        run('Exporting…', (newOptions: IPdfOptions) => exportPdf(notes, newOptions, title, filename).then(() => {
+            ServiceLoactor.alerter.info(`Exported ${title} to ${filename}`);
+        }));
+    });
+}
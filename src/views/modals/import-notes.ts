@@ -0,0 +1,148 @@
+import { ModalView, Event as ModalEvent } from '../modal';
+import { AllHtmlEntities } from 'html-entities';
+import ServiceLoactor from '../../service-locator';
+import { Event as NoteManagerEvent } from '../../note-manager';
+import { NOTEBOOK_PATH_SEP } from '../../note';
+import { IImportSource, IImportSummary, ImportConflictStrategy, readMarkdownFolder, readEnex } from '../../importer';
+import { remote } from 'electron';
+import { basename, extname, dirname } from 'path';
+
+const entities = new AllHtmlEntities();
+
+function itemHtml(icon: string, text: string): string {
+    return `<li><i class="fa ${icon}"></i> ${entities.encode(text)}</li>`;
+}
+
+/**
+ * Import a folder of markdown files or an Evernote export into a notebook
+ */
+export default function (el: JQuery, modalView: ModalView) {
+    let noteManager = ServiceLoactor.noteManager;
+    let sourceEl = el.find('input.source');
+    let targetEl = el.find('input.target');
+    let progressEl = el.find('progress');
+    let progressTextEl = el.find('.progress-text');
+    // target is filled from the source until it's typed by the user
+    let defaultTarget = '';
+
+    let getSourceType = (): string => el.find('input[name=source-type]:checked').val();
+
+    let setProgress = (done: number, total: number) => {
+        progressEl.val(total ? Math.round(done / total * 100) : 0);
+        progressTextEl.text(`Importing ${done} of ${total} notes…`);
+    };
+
+    let render = (name: string, items: string[]) => {
+        let sectionEl = el.find(`.report-section[_data="${name}"]`);
+        if (!items.length) {
+            sectionEl.hide();
+            return;
+        }
+        sectionEl.find('.count').text(items.length);
+        sectionEl.find('.report-items').append(items.join(''));
+    };
+
+    let showSummary = (summary: IImportSummary, errors: string[]) => {
+        let count = summary.imported.length + summary.renamed.length + summary.overwritten.length;
+        let attachments = summary.attachments ? `, ${summary.attachments} attachments saved` : '';
+
+        el.find('.summary-text').text(`${count} notes imported${attachments}.`);
+        render('imported', summary.imported.map((path) => itemHtml('fa-file-text-o', path)));
+        render('renamed', summary.renamed.map((path) => itemHtml('fa-file-text-o', path)));
+        render('overwritten', summary.overwritten.map((path) => itemHtml('fa-file-text-o', path)));
+        render('skipped', summary.skipped.map((path) => itemHtml('fa-exclamation-triangle', path)));
+        render('errors', errors.map((error) => itemHtml('fa-exclamation-triangle', error)));
+
+        el.find('.import-progress').hide();
+        el.find('.import-summary').show();
+        el.find('button.apply').hide();
+        el.find('button.cancel').text('Close').prop('disabled', false);
+    };
+
+    let setImporting = (importing: boolean) => {
+        el.find('.import-options').toggle(!importing);
+        el.find('.import-progress').toggle(importing);
+        el.find('button.apply, button.cancel').prop('disabled', importing);
+    };
+
+    let onProgress = (done: number, total: number) => {
+        setProgress(done, total);
+    };
+    noteManager.on(NoteManagerEvent.import_progress, onProgress);
+    modalView.once(ModalEvent.close, () => {
+        noteManager.removeListener(NoteManagerEvent.import_progress, onProgress);
+    });
+
+    el.find('.import-progress, .import-summary').hide();
+
+    el.on('change', 'input[name=source-type]', () => {
+        sourceEl.val('');
+        if (targetEl.val() === defaultTarget) {
+            targetEl.val(defaultTarget = '');
+        }
+    });
+
+    el.on('click', 'button.browse', () => {
+        let isEnex = getSourceType() === 'enex';
+        let current: string = sourceEl.val();
+        let pathnames = remote.dialog.showOpenDialog({
+            title: isEnex ? 'Select Evernote export file' : 'Select folder of markdown files',
+            defaultPath: current ? dirname(current) : remote.app.getPath('home'),
+            filters: isEnex ? [{ name: 'Evernote export', extensions: ['enex'] }] : [],
+            properties: [isEnex ? 'openFile' : 'openDirectory'],
+        });
+
+        let pathname: string = (pathnames && pathnames.length) ? pathnames[0] : '';
+        if (!pathname) {
+            return;
+        }
+
+        sourceEl.val(pathname);
+        if (!targetEl.val() || targetEl.val() === defaultTarget) {
+            defaultTarget = basename(pathname, extname(pathname));
+            targetEl.val(defaultTarget);
+        }
+    });
+
+    el.on('click', 'button.cancel', () => {
+        modalView.close();
+    });
+
+    el.on('click', 'button.apply', () => {
+        let source: string = sourceEl.val();
+        let target = (targetEl.val() as string).split(NOTEBOOK_PATH_SEP)
+            .map((name) => name.trim())
+            .filter((name) => name);
+        let strategy: ImportConflictStrategy = el.find('select.strategy').val();
+
+        if (!source) {
+            ServiceLoactor.alerter.warn('Select the folder or file to import');
+            return;
+        } else if (!target.length) {
+            ServiceLoactor.alerter.warn('Enter the notebook to import into');
+            return;
+        }
+
+        setImporting(true);
+        progressTextEl.text('Reading notes…');
+
+        let errors: string[] = [];
+        (getSourceType() === 'enex' ? readEnex(source) : readMarkdownFolder(source)).then((result: IImportSource) => {
+            errors = result.errors;
+            if (!result.notes.length) {
+                throw new Error(`No notes found in ${source}`);
+            }
+
+            setProgress(0, result.notes.length);
+            return noteManager.importNotes(target, result.notes, strategy).then((summary: IImportSummary) => {
+                showSummary(summary, errors);
+            }, () => {
+                // failure is alerted by note manager
+                setImporting(false);
+            });
+        }).catch((e) => {
+            setImporting(false);
+            ServiceLoactor.alerter.warn(e.message);
+        });
+    });
+}
@@ -0,0 +1,89 @@
+import { ModalView } from '../modal';
+import ServiceLoactor from '../../service-locator';
+import { App } from '../../app';
+import { DAY_FORMAT, getJournalDays, getJournalDate, openJournal } from '../../journal';
+import * as moment from 'moment';
+
+function weekdaysHtml(): string {
+    return '<tr>' + moment.weekdaysMin(true).map((name) => `<th>${name}</th>`).join('') + '</tr>';
+}
+
+/**
+ * Rows of the weeks in the month, days having journal notes are highlighted
+ */
+function monthHtml(month: moment.Moment, days: Set<string>, selected: string): string {
+    let today = moment().format(DAY_FORMAT);
+    let day = month.clone().startOf('month').startOf('week');
+    let end = month.clone().endOf('month').endOf('week');
+    let html = '';
+
+    while (day.isBefore(end)) {
+        html += '<tr>';
+        for (let i = 0; i < 7; i++, day.add(1, 'days')) {
+            let key = day.format(DAY_FORMAT);
+            let classes = ['day'];
+
+            if (!day.isSame(month, 'month')) {
+                classes.push('other-month');
+            }
+            if (days.has(key)) {
+                classes.push('has-entry');
+            }
+            if (key === today) {
+                classes.push('today');
+            }
+            if (key === selected) {
+                classes.push('selected');
+            }
+            html += `<td class="${classes.join(' ')}" _data="${key}">${day.date()}</td>`;
+        }
+        html += '</tr>';
+    }
+    return html;
+}
+
+/**
+ * Calendar of the journal, open or create the journal note of the clicked day
+ */
+export default function (el: JQuery, modalView: ModalView) {
+    let days = getJournalDays();
+    // the month of the active journal note is shown first
+    let activeDate = getJournalDate(App.getInstance().activeNote);
+    let selected = activeDate ? activeDate.format(DAY_FORMAT) : null;
+    let month = (activeDate || moment()).clone().startOf('month');
+
+    let render = () => {
+        el.find('.month').text(month.format('MMMM YYYY'));
+        el.find('.calendar tbody').empty().append(monthHtml(month, days, selected));
+    };
+
+    let open = (date: moment.Moment) => {
+        try {
+            openJournal(date);
+            modalView.close();
+        } catch (e) {
+            ServiceLoactor.alerter.warn(e.message);
+        }
+    };
+
+    el.find('.calendar thead').append(weekdaysHtml());
+    render();
+
+    el.on('click', 'button.prev-month', () => {
+        month.subtract(1, 'months');
+        render();
+    });
+
+    el.on('click', 'button.next-month', () => {
+        month.add(1, 'months');
+        render();
+    });
+
+    el.on('click', 'td.day', (event) => {
+        open(moment($(event.currentTarget).attr('_data'), DAY_FORMAT));
+    });
+
+    el.on('click', 'button.today', () => {
+        open(moment().startOf('day'));
+    });
+}
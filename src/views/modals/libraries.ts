@@ -0,0 +1,161 @@
+import { ModalView, Event as ModalEvent } from '../modal';
+import { AllHtmlEntities } from 'html-entities';
+import ServiceLoactor from '../../service-locator';
+import { App } from '../../app';
+import { ILibrary, Event as ConfigEvent } from '../../config';
+import { remote } from 'electron';
+import { dirname } from 'path';
+
+const KEYCODE_ENTER = 13;
+const KEYCODE_ESC = 27;
+
+const entities = new AllHtmlEntities();
+
+function libraryHtml(library: ILibrary, active: boolean): string {
+    let name = entities.encode(library.name);
+    return `
+<li class="list-group-item${active ? ' active-library' : ''}" _data="${name}">
+    <div class="library-info">
+        <span class="library-name">${name}</span>${active ? ' <span class="badge badge-primary">Active</span>' : ''}
+        <small class="text-muted">${entities.encode(library.noteDir)}</small>
+        ${library.remote ? `<small class="text-muted">${entities.encode(library.remote)}</small>` : ''}
+    </div>
+    <div class="library-actions">
+        <button type="button" class="switch btn btn-secondary btn-sm"${active ? ' disabled' : ''}>Switch</button>
+        <button type="button" class="rename btn btn-secondary btn-sm">Rename</button>
+        <button type="button" class="remove btn btn-secondary btn-sm"${active ? ' disabled' : ''}>Remove</button>
+    </div>
+</li>`;
+}
+
+/**
+ * List, add, rename and remove libraries, notes in the directory of a removed library are kept
+ */
+export default function (el: JQuery, modalView: ModalView) {
+    let config = ServiceLoactor.config;
+    let listEl = el.find('.library-list');
+    let nameEl = el.find('input.name');
+    let noteDirEl = el.find('input.note-dir');
+    let remoteEl = el.find('input.remote');
+
+    let render = () => {
+        let current = config.library;
+        let libraries = config.libraries;
+
+        listEl.html(libraries.map((library) => libraryHtml(library, library.name === current)).join(''));
+        if (!libraries.length) {
+            listEl.html('<li class="list-group-item text-muted">No library yet, add the first one below</li>');
+        }
+    };
+
+    let getName = (target: Element): string => {
+        return $(target).closest('li').attr('_data');
+    };
+
+    let run = (job: () => void): boolean => {
+        try {
+            job();
+        } catch (e) {
+            ServiceLoactor.alerter.warn(e.message);
+            return false;
+        }
+        return true;
+    };
+
+    render();
+    // libraries change with the config, e.g. switched from the header
+    let renderHandler = (name: string) => {
+        if (name === 'library' || name === 'libraries') {
+            render();
+        }
+    };
+    config.on(ConfigEvent.change, renderHandler);
+    modalView.once(ModalEvent.close, () => {
+        config.removeListener(ConfigEvent.change, renderHandler);
+    });
+
+    el.on('click', 'button.switch', (event) => {
+        App.getInstance().execCommand('switchLibrary', getName(event.currentTarget));
+    });
+
+    el.on('click', 'button.rename', (event) => {
+        let name = getName(event.currentTarget);
+        let nameSpan = $(event.currentTarget).closest('li').find('.library-name');
+        let input = $('<input class="form-control form-control-sm" type="text">').val(name);
+
+        let cancelled = false;
+
+        nameSpan.replaceWith(input);
+        input.focus().select();
+        // keep ESC from closing the modal
+        input.on('keyup', (e) => {
+            if (e.keyCode === KEYCODE_ESC) {
+                cancelled = true;
+                render();
+                return false;
+            }
+        });
+        input.on('keydown', (e) => {
+            if (e.keyCode === KEYCODE_ENTER) {
+                input.blur();
+            }
+        });
+        input.on('blur', () => {
+            if (cancelled) {
+                return;
+            }
+            let newName = input.val().trim();
+            if (!run(() => config.renameLibrary(name, newName))) {
+                render();
+            }
+        });
+    });
+
+    el.on('click', 'button.remove', (event) => {
+        let name = getName(event.currentTarget);
+        let response = ServiceLoactor.dialog.messsageBox({
+            type: 'warning',
+            message: `Remove library: ${name}?`,
+            detail: 'Notes are kept in its note directory, add the library again to open them.',
+            defaultId: 1,
+            buttons: ['Remove', 'Cancel']
+        });
+        if (response) { // cancel
+            return;
+        }
+
+        run(() => config.removeLibrary(name));
+    });
+
+    el.on('click', 'button.browse', () => {
+        let dirs = remote.dialog.showOpenDialog({
+            title: 'Select note directory',
+            defaultPath: config.noteDir ? dirname(config.noteDir) : remote.app.getPath('home'),
+            properties: ['openDirectory', 'createDirectory']
+        });
+
+        let newDir: string = (dirs && dirs.length) ? dirs[0] : '';
+        if (newDir) {
+            noteDirEl.val(newDir);
+        }
+    });
+
+    el.on('click', 'button.cancel', () => {
+        modalView.close();
+    });
+
+    el.on('click', 'button.apply', () => {
+        let library: ILibrary = {
+            name: nameEl.val().trim(),
+            noteDir: noteDirEl.val(),
+            remote: remoteEl.val().trim(),
+        };
+
+        if (run(() => config.addLibrary(library))) {
+            nameEl.val('');
+            noteDirEl.val('');
+            remoteEl.val('');
+            ServiceLoactor.alerter.info(`Added library: ${library.name}, __switch to it__ to open its notes`);
+        }
+    });
+}
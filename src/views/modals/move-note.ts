@@ -0,0 +1,86 @@
+import { ModalView } from '../modal';
+import ServiceLoactor from '../../service-locator';
+import { Note, Notebook, NOTEBOOK_PATH_SEP } from '../../note';
+
+const KEYCODE_ENTER = 13;
+const KEYCODE_ESC = 27;
+
+export default function (el: JQuery, modalView: ModalView, note: Note) {
+    const ERROR_CLASS = 'has-danger';
+    const PARENT_CLASS = 'form-group';
+    const NOTEBOOK_ID = 'modal-move-notebook-text-input';
+
+    let noteManager = ServiceLoactor.noteManager;
+    let notebookEl = $(`#${NOTEBOOK_ID}`);
+
+    // notebook path -> notebook, the current notebook is not a target
+    let notebookPaths = new Map<string, Notebook>();
+    for (let notebook of noteManager.walkNotebooks()) {
+        if (notebook !== note.notebook) {
+            notebookPaths.set(notebook.path.join(NOTEBOOK_PATH_SEP), notebook);
+        }
+    }
+    let notebooks = Array.from(notebookPaths.keys());
+
+    // remove error class
+    notebookEl.on('focus', () => {
+        notebookEl.parents(`.${PARENT_CLASS}`).removeClass(ERROR_CLASS);
+    });
+
+    let moveNote = () => {
+        let notebook = notebookPaths.get(notebookEl.val());
+        if (!notebook) {
+            notebookEl.parents(`.${PARENT_CLASS}`).addClass(ERROR_CLASS);
+            return;
+        }
+
+        try {
+            noteManager.moveNote(note, notebook);
+        } catch (e) {
+            ServiceLoactor.alerter.warn(e.message);
+        }
+
+        modalView.close();
+    };
+
+    // move handler
+    el.on('click', 'button.move', moveNote);
+
+    let dataSource = new Bloodhound<string>({
+        local: notebooks,
+        datumTokenizer: Bloodhound.tokenizers.whitespace,
+        queryTokenizer: Bloodhound.tokenizers.whitespace
+    });
+
+    let dataset = {
+        source: (query, sync, async) => {
+            if (query === '') {
+                sync(notebooks);
+            } else {
+                dataSource.search(query, sync, async);
+            }
+        }
+    };
+
+    notebookEl.typeahead<string>({
+        minLength: 0,
+        highlight: true
+    }, dataset);
+
+    notebookEl.parent().css({ width: '100%' });
+
+    notebookEl.on('keyup', (event) => {
+        if (KEYCODE_ESC === event.keyCode) {
+            notebookEl.typeahead('close');
+            return false;
+        } else if (KEYCODE_ENTER === event.keyCode) {
+            notebookEl.typeahead('close');
+            moveNote();
+            return false;
+        }
+    });
+
+    setTimeout(() => {
+        notebookEl.focus();
+    }, 0);
+}
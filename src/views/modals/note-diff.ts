@@ -0,0 +1,45 @@
+import { ModalView, Event as ModalEvent } from '../modal';
+import ServiceLoactor from '../../service-locator';
+import { Note } from '../../note';
+
+const TEXT_MODE = 'markdown';
+
+/**
+ * Compare disk content with the note, changes could be merged into the note directly
+ */
+export default function (el: JQuery, modalView: ModalView, note: Note, diskContent: string) {
+    let original = Monaco.editor.createModel(diskContent, TEXT_MODE);
+    // edit a copy if the note is not opened in editor yet
+    let modified = note.editorModel || Monaco.editor.createModel(note.content, TEXT_MODE);
+
+    let diffEditor = Monaco.editor.createDiffEditor(el.find('.diff-editor').get(0) as HTMLElement, {
+        theme: 'vs',
+        renderSideBySide: true,
+        wordWrap: 'on',
+        minimap: {
+            enabled: false
+        }
+    });
+    diffEditor.setModel({ original, modified });
+
+    modalView.once(ModalEvent.close, () => {
+        diffEditor.dispose();
+        original.dispose();
+        if (modified !== note.editorModel) {
+            modified.dispose();
+        }
+    });
+
+    el.on('click', 'button.keep-modified', () => {
+        if (modified !== note.editorModel && modified.getValue() !== note.content) {
+            note.content = modified.getValue();
+        }
+        note.keepLocalChanges(diskContent);
+        modalView.close();
+    });
+
+    el.on('click', 'button.take-original', () => {
+        ServiceLoactor.noteManager.reloadNote(note, diskContent);
+        modalView.close();
+    });
+}
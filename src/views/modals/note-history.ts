@@ -0,0 +1,123 @@
+import { ModalView, Event as ModalEvent } from '../modal';
+import { AllHtmlEntities } from 'html-entities';
+import ServiceLoactor from '../../service-locator';
+import { App, NoteView } from '../../app';
+import { ReaderView } from '../reader';
+import { Note } from '../../note';
+import { IFileCommit } from '../../git';
+import * as moment from 'moment';
+
+const TEXT_MODE = 'markdown';
+const ACTIVE_CLASS = 'active';
+
+const entities = new AllHtmlEntities();
+
+function commitHtml(commit: IFileCommit, index: number): string {
+    let date = moment(commit.date);
+    return `
+<li class="commit list-group-item" _data="${index}" title="${entities.encode(commit.sha)}">
+    <div>
+        <span class="date">${date.format('YYYY-MM-DD HH:mm')}</span>
+        <small>${date.fromNow()}</small>
+        <span class="author">${entities.encode(commit.author)}</span>
+        <span class="message">${entities.encode(commit.message)}</span>
+    </div>
+</li>`;
+}
+
+const NO_COMMIT_HTML = '<li class="no-commit list-group-item">No archived versions yet</li>';
+
+/**
+ * Browse versions of the note archived in git, a version could be restored as an unsaved change
+ */
+export default function (el: JQuery, modalView: ModalView, note: Note) {
+    let noteManager = ServiceLoactor.noteManager;
+    let commitsEl = el.find('.commits');
+    let restoreEl = el.find('button.restore');
+
+    // version is rendered from a detached note, so the note itself is untouched
+    let reader = new ReaderView(el.find('.version-reader'));
+    let original = Monaco.editor.createModel('', TEXT_MODE);
+    let modified = Monaco.editor.createModel(note.content, TEXT_MODE);
+    let diffEditor = Monaco.editor.createDiffEditor(el.find('.diff-editor').get(0) as HTMLElement, {
+        theme: 'vs',
+        readOnly: true,
+        renderSideBySide: true,
+        wordWrap: 'on',
+        minimap: {
+            enabled: false
+        }
+    });
+    diffEditor.setModel({ original, modified });
+
+    modalView.once(ModalEvent.close, () => {
+        diffEditor.dispose();
+        original.dispose();
+        modified.dispose();
+    });
+
+    el.find('.modal-title').text(`History of ${note.name}`);
+
+    let commits: IFileCommit[] = [];
+    // content of the selected version
+    let versionContent: string = null;
+
+    let selectCommit = (index: number) => {
+        let commit = commits[index];
+
+        commitsEl.children().removeClass(ACTIVE_CLASS);
+        commitsEl.children(`[_data="${index}"]`).addClass(ACTIVE_CLASS);
+        restoreEl.prop('disabled', true);
+
+        noteManager.getVersion(note, commit.sha).then((content: string) => {
+            versionContent = content;
+
+            let version = new Note(note.name, note.notebook, note.slug);
+            version.content = content;
+            reader.openNote(version, false);
+
+            original.setValue(content);
+            restoreEl.prop('disabled', false);
+        }).catch((e) => {
+            ServiceLoactor.alerter.warn(`Cannot read the version: ${e.message}`);
+        });
+    };
+
+    noteManager.getHistory(note).then((result: IFileCommit[]) => {
+        commits = result;
+        commitsEl.append(commits.length ? commits.map(commitHtml).join('') : NO_COMMIT_HTML);
+        if (commits.length) {
+            selectCommit(0);
+        }
+    }).catch((e) => {
+        ServiceLoactor.alerter.warn(`Cannot read the history: ${e.message}`);
+    });
+
+    el.on('click', '.commit', (event) => {
+        selectCommit(+$(event.currentTarget).attr('_data'));
+    });
+
+    el.on('click', '.version-tabs button', (event) => {
+        let tab = $(event.currentTarget).attr('_data');
+
+        el.find('.version-tabs button').removeClass(ACTIVE_CLASS);
+        $(event.currentTarget).addClass(ACTIVE_CLASS);
+        el.find('.version-pane').hide();
+        el.find(`.version-pane[_data="${tab}"]`).show();
+
+        if (tab === 'diff') {
+            diffEditor.layout();
+        }
+    });
+
+    el.on('click', 'button.restore', () => {
+        if (versionContent === null) {
+            return;
+        }
+
+        // open the note in editor so the version becomes an undoable change of its model
+        App.getInstance().openNote(note, NoteView.EditMode);
+        note.content = versionContent;
+        modalView.close();
+    });
+}
@@ -1,14 +1,20 @@
 import { ModalView } from '../modal';
+import { AllHtmlEntities } from 'html-entities';
 import ServiceLoactor from '../../service-locator';
+import { Notebook, NOTEBOOK_PATH_SEP } from '../../note';
+import { findTitle } from '../../scratchpad';
 
 const KEYCODE_ENTER = 13;
 const KEYCODE_ESC = 27;
 
+const entities = new AllHtmlEntities();
+
 export default function (el: JQuery, modalView: ModalView) {
     const ERROR_CLASS = 'has-danger';
     const PARENT_CLASS = 'form-group';
     const NOTEBOOK_ID = 'modal-orphan-notebook-text-input';
     const NOTE_ID = 'modal-orphan-note-text-input';
+    const TEMPLATE_ID = 'modal-orphan-template-select';
 
     // remove error class
     el.on('focus', 'input', (event) => {
@@ -42,20 +48,45 @@ export default function (el: JQuery, modalView: ModalView) {
             return;
         }
 
-        let notebook = noteManager.notebooks.get(notebookName);
-        if (!notebook) {
-            notebook = noteManager.createNotebook(notebookName);
+        // content of the orphan note is put at the cursor marker of the template
+        try {
+            let notebook = notebookPaths.get(notebookName) || createNotebooks(notebookName.split(NOTEBOOK_PATH_SEP));
+            noteManager.createNote(noteName, notebook, true, $(`#${TEMPLATE_ID}`).val() || null);
+        } catch (e) {
+            $(`#${NOTE_ID}`).parents(`.${PARENT_CLASS}`).addClass(ERROR_CLASS);
+            ServiceLoactor.alerter.warn(e.message);
+            return;
         }
 
-        noteManager.createNote(noteName, notebook, true);
-
         modalView.close();
     });
 
-    let notebooks = [];
-    for (let notebook of noteManager.notebooks.keys()) {
-        notebooks.push(notebook);
+    // e.g. Work/ProjectA creates ProjectA in Work, and Work as well if it doesn't exist
+    let createNotebooks = (path: string[]): Notebook => {
+        let names = path.map((item) => item.trim());
+        if (names.indexOf('') !== -1) {
+            throw new Error(`Invalid notebook path: ${path.join(NOTEBOOK_PATH_SEP)}`);
+        }
+
+        let parent: Notebook = null;
+        for (let name of names) {
+            let siblings = parent ? parent.notebooks : noteManager.notebooks;
+            parent = siblings.get(name) || noteManager.createNotebook(name, parent);
+        }
+        return parent;
+    };
+
+    // notebook path -> notebook
+    let notebookPaths = new Map<string, Notebook>();
+    for (let notebook of noteManager.walkNotebooks()) {
+        notebookPaths.set(notebook.path.join(NOTEBOOK_PATH_SEP), notebook);
     }
+    // notebooks used lately go first
+    let recentNotebooks = noteManager.scratchpad.getRecentNotebooks()
+        .map((path) => path.join(NOTEBOOK_PATH_SEP))
+        .filter((path) => notebookPaths.has(path));
+    let notebooks = recentNotebooks.concat(Array.from(notebookPaths.keys())
+        .filter((path) => recentNotebooks.indexOf(path) === -1));
 
     let dataSource = new Bloodhound<string>({
         local: notebooks,
@@ -81,10 +112,47 @@ export default function (el: JQuery, modalView: ModalView) {
 
     notebookEl.parent().css({ width: '100%' });
 
+    // suggest the note name by the first heading and the notebook used last
+    $(`#${NOTE_ID}`).val(findTitle(noteManager.orphanNote.content));
+    if (recentNotebooks.length) {
+        notebookEl.typeahead('val', recentNotebooks[0]);
+    }
+
     notebookEl.on('keyup', (event) => {
         if (KEYCODE_ENTER === event.keyCode || KEYCODE_ESC === event.keyCode) {
             notebookEl.typeahead('close');
             return false;
         }
     });
-}
\ No newline at end of file
+
+    // template picker, preselect default template of the chosen notebook until user picks one
+    let templateEl = $(`#${TEMPLATE_ID}`);
+    let templatePicked = false;
+
+    el.find('.template-row').hide();
+    noteManager.getTemplates().then((templates: string[]) => {
+        if (!templates.length) {
+            return;
+        }
+
+        templateEl.append(templates.map((name) => {
+            return `<option value="${entities.encode(name)}">${entities.encode(name)}</option>`;
+        }).join(''));
+        el.find('.template-row').show();
+        // default template of the suggested notebook
+        notebookEl.trigger('change');
+    }).catch((e) => {
+        ServiceLoactor.logger.error(e);
+    });
+
+    templateEl.on('change', () => {
+        templatePicked = true;
+    });
+    notebookEl.on('change typeahead:select', () => {
+        let notebook = notebookPaths.get(notebookEl.val());
+        if (!templatePicked && notebook && notebook.template
+            && templateEl.children(`[value="${entities.encode(notebook.template)}"]`).length) {
+            templateEl.val(notebook.template);
+        }
+    });
+}
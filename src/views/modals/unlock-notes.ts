@@ -0,0 +1,59 @@
+import { ModalView } from '../modal';
+import ServiceLoactor from '../../service-locator';
+
+const KEYCODE_ENTER = 13;
+
+/**
+ * Ask for the passphrase of encrypted notes, it's set here if there's none yet.
+ * The callback is called once notes are unlocked
+ */
+export default function (el: JQuery, modalView: ModalView, onUnlock?: () => void) {
+    let isNew = !ServiceLoactor.keyRing.hasPassphrase;
+    let passphraseEl = el.find('input.passphrase');
+    let confirmEl = el.find('input.confirm');
+
+    let unlock = () => {
+        let passphrase: string = passphraseEl.val();
+        if (!passphrase) {
+            ServiceLoactor.alerter.warn('Enter the passphrase');
+            return;
+        } else if (isNew && passphrase !== confirmEl.val()) {
+            ServiceLoactor.alerter.warn('Passphrases do not match');
+            return;
+        }
+
+        el.find('button').prop('disabled', true);
+        ServiceLoactor.noteManager.unlockNotes(passphrase).then(() => {
+            modalView.close();
+            if (onUnlock) {
+                onUnlock();
+            }
+        }, (e) => {
+            el.find('button').prop('disabled', false);
+            passphraseEl.val('').focus();
+            ServiceLoactor.alerter.warn(e.message);
+        });
+    };
+
+    if (isNew) {
+        el.find('.modal-title').text('Set Passphrase');
+        el.find('button.apply').text('Set Passphrase');
+    } else {
+        el.find('.new-passphrase-text, .confirm-row').hide();
+    }
+    passphraseEl.focus();
+
+    el.on('keyup', 'input', (event) => {
+        if (event.keyCode === KEYCODE_ENTER) {
+            unlock();
+        }
+    });
+
+    el.on('click', 'button.cancel', () => {
+        modalView.close();
+    });
+
+    el.on('click', 'button.apply', () => {
+        unlock();
+    });
+}
@@ -0,0 +1,59 @@
+import { ModalView } from '../modal';
+import { AllHtmlEntities } from 'html-entities';
+import ServiceLoactor from '../../service-locator';
+import { Note, NOTEBOOK_PATH_SEP } from '../../note';
+import { IReferenceUpdate, IReferenceChange, IReferenceLink } from '../../reference-updater';
+
+const entities = new AllHtmlEntities();
+
+function notePath(note: Note): string {
+    return note.notebook.path.concat(note.name).join(NOTEBOOK_PATH_SEP);
+}
+
+function linkHtml(link: IReferenceLink): string {
+    return `<li><code>${entities.encode(link.from)}</code> → <code>${entities.encode(link.to)}</code></li>`;
+}
+
+function changeHtml(change: IReferenceChange): string {
+    return `
+<li>
+    <i class="fa fa-file-text-o"></i> ${entities.encode(notePath(change.note))}
+    <ul class="links">${change.links.map(linkHtml).join('')}</ul>
+</li>`;
+}
+
+function skippedHtml(note: Note): string {
+    return `<li><i class="fa fa-exclamation-triangle"></i> ${entities.encode(notePath(note))}</li>`;
+}
+
+/**
+ * Preview notes referencing the renamed or moved note/notebook, all of them are updated at once
+ */
+export default function (el: JQuery, modalView: ModalView, update: IReferenceUpdate) {
+    let render = (name: string, items: string[]) => {
+        let sectionEl = el.find(`.report-section[_data="${name}"]`);
+        if (!items.length) {
+            sectionEl.hide();
+            return;
+        }
+        sectionEl.find('.count').text(items.length);
+        sectionEl.find('.report-items').append(items.join(''));
+    };
+
+    el.find('.update-title').text(update.title);
+    render('changes', update.changes.map(changeHtml));
+    render('skipped', update.skipped.map(skippedHtml));
+
+    if (!update.changes.length) {
+        el.find('button.apply').prop('disabled', true);
+    }
+
+    el.on('click', 'button.cancel', () => {
+        modalView.close();
+    });
+
+    el.on('click', 'button.apply', () => {
+        ServiceLoactor.noteManager.updateReferences(update);
+        modalView.close();
+    });
+}
@@ -3,21 +3,48 @@ import { Event as NoteManagerEvent } from '../note-manager';
 import { AllHtmlEntities } from 'html-entities';
 import { App, NoteView } from '../app';
 import { Event as EditorEvent } from '../editor';
-import { Notebook, Note } from '../note';
+import { Notebook, Note, NoteSortMode, NOTEBOOK_PATH_SEP, sortNotes } from '../note';
+import { ITrashItem } from '../trash';
+import { TEMPLATES_DIRNAME } from '../templates';
+import { exportNoteHtml, exportNotebookHtml } from '../html-exporter';
+import { getPrintableNotes } from '../pdf-exporter';
 import ServiceLocator from '../service-locator';
+import ViewManager from '../view-manager';
 import { remote } from 'electron';
+import { existsSync } from 'fs';
+import { join, basename } from 'path';
+import * as moment from 'moment';
 
 const KEYCODE_ENTER = 13;
 const KEYCODE_ESC = 27;
 
+// indent of each notebook level
+const INDENT_WIDTH = 15;
+const NOTEBOOK_PADDING = 20;
+const NOTE_PADDING = 50;
+
+const DROP_TARGET_CLASS = 'drop-target';
+// a dragging note is arranged before or after the note under the cursor
+const DROP_BEFORE_CLASS = 'drop-before';
+const DROP_AFTER_CLASS = 'drop-after';
+// recently opened notes listed
+const RECENT_COUNT = 10;
+
+const SORT_MODE_LABELS: [NoteSortMode, string][] = [
+    ['name', 'Name'],
+    ['created', 'Date Created'],
+    ['modified', 'Date Modified'],
+    ['manual', 'Manual'],
+];
+
 const { Menu, getCurrentWindow } = remote;
 const entities = new AllHtmlEntities();
 
-function notebookHtml(name: string = ''): string {
+function notebookHtml(name: string = '', depth: number = 0): string {
     name = entities.encode(name);
 
     let innerHtml = `
-<a href="javascript:void(0)">
+<a href="javascript:void(0)" style="padding-left: ${NOTEBOOK_PADDING + depth * INDENT_WIDTH}px">
     <i class="fa fa-book"></i>
     <span>${name}</span>
     <i class="fa arrow"></i>
@@ -29,36 +56,110 @@ function notebookHtml(name: string = ''): string {
 </li>`;
 }
 
-function noteHtml(name: string = ''): string {
+function noteHtml(name: string = '', depth: number = 0): string {
     name = entities.encode(name);
 
-    let innerHtml = `<a href="javascript:void(0)">${name}</a>`;
+    let innerHtml = `<a href="javascript:void(0)" style="padding-left: ${NOTE_PADDING + depth * INDENT_WIDTH}px">${name}</a>`;
     return `
-<li class="note" _data="${name}">
+<li class="note" _data="${name}"${name ? ' draggable="true"' : ''}>
     ${name ? innerHtml : ''}
 </li>`;
 }
 
-function editNotebookHtml(name: string = ''): string {
+function editNotebookHtml(name: string = '', depth: number = 0): string {
     name = entities.encode(name);
     return `
-<div class="edit notebook-edit">
-    <i class="fa fa-book"></i>
+<div class="edit notebook-edit" style="padding-left: ${NOTEBOOK_PADDING + 25 + depth * INDENT_WIDTH}px">
+    <i class="fa fa-book" style="left: ${NOTEBOOK_PADDING + depth * INDENT_WIDTH}px"></i>
     <input type="text" autocorrect="off" autocapitalize="off" spellcheck="false" wrap="off" value="${name}">
 </div>`;
 }
 
-function editNoteHtml(name: string = ''): string {
+function editNoteHtml(name: string = '', depth: number = 0): string {
     name = entities.encode(name);
     return `
-<div class="edit note-edit">
+<div class="edit note-edit" style="padding-left: ${NOTE_PADDING + depth * INDENT_WIDTH}px">
     <input type="text" autocorrect="off" autocapitalize="off" spellcheck="false" wrap="off" value="${name}">
 </div>`;
 }
 
+function templatePickerHtml(templates: string[], selected: string): string {
+    let optionHtml = (value: string, text: string) => {
+        value = entities.encode(value);
+        return `<option value="${value}"${value === entities.encode(selected || '') ? ' selected' : ''}>${entities.encode(text)}</option>`;
+    };
+    return [optionHtml('', 'No template')].concat(templates.map((name) => optionHtml(name, name))).join('');
+}
+
+function tagHtml(tag: string, count: number): string {
+    tag = entities.encode(tag);
+    return `
+<li class="tag" _data="${tag}">
+    <a href="javascript:void(0)">
+        <i class="fa fa-tag"></i>
+        <span>${tag}</span>
+        <span class="tag-count">${count}</span>
+    </a>
+</li>`;
+}
+
+function editTagHtml(tag: string = ''): string {
+    tag = entities.encode(tag);
+    return `
+<div class="edit tag-edit">
+    <i class="fa fa-tag"></i>
+    <input type="text" autocorrect="off" autocapitalize="off" spellcheck="false" wrap="off" value="${tag}">
+</div>`;
+}
+
+function trashHtml(count: number): string {
+    return `
+<li class="trash">
+    <a href="javascript:void(0)">
+        <i class="fa fa-trash"></i>
+        <span>Trash</span>
+        <span class="trash-count">${count || ''}</span>
+        <i class="fa arrow"></i>
+    </a>
+    <ul class="trash-items collapse"></ul>
+</li>`;
+}
+
+function trashItemHtml(item: ITrashItem): string {
+    let name = entities.encode(item.name);
+    let location = entities.encode(item.path.join(NOTEBOOK_PATH_SEP) || '/');
+    let icon = item.type === 'notebook' ? 'fa fa-book' : 'fa fa-file-text-o';
+    return `
+<li class="trash-item" _data="${entities.encode(item.id)}" title="${name} in ${location}">
+    <a href="javascript:void(0)">
+        <i class="${icon}"></i>
+        <span>${name}</span>
+        <span class="deleted-at">${moment(item.deletedAt).fromNow()}</span>
+    </a>
+</li>`;
+}
+
+function shortcutHtml(note: Note, icon: string): string {
+    let name = entities.encode(note.name);
+    let path = entities.encode(note.notebook.path.join(NOTEBOOK_PATH_SEP));
+    return `
+<li class="shortcut" title="${name} in ${path}">
+    <a href="javascript:void(0)">
+        <i class="${icon}"></i>
+        <span>${name}</span>
+        <span class="shortcut-notebook">${entities.encode(note.notebook.name)}</span>
+    </a>
+</li>`;
+}
+
+function sortByName<T extends { name: string }>(items: T[]): T[] {
+    return items.sort((a, b) => a.name < b.name ? -1 : (a.name > b.name ? 1 : 0));
+}
+
 const NOTEBOOK_CHANGE_BADGE_HTML = '<span class="change-badge"></span>';
 const NOTE_CHANGE_FLAG_HTML = '<span class="change_flag"></span>';
 const EDIT_BACKGROUND_HTML = '<div class="edit-background"></div>';
+const TEMPLATE_PICKER_HTML = '<select class="template-picker" title="Template of the new note"></select>';
 
 interface INoteView {
     // note elemenmt
@@ -72,7 +173,7 @@ interface INoteView {
 interface INotebookView {
     // notebook elment
     el: JQuery;
-    // note container
+    // sub notebook and note container
     noteCon: JQuery;
     // collapse object
     coll: JQuery;
@@ -86,6 +187,14 @@ interface INotebookView {
     notes: Map<Note, INoteView>;
 }
 
+interface ITagView {
+    // tag element
+    el: JQuery;
+
+    isEditing: boolean;
+    isRenaming: boolean;
+}
+
 export const Event = {
     select_note: 'notebook-list-view:select-note',
 };
@@ -94,16 +203,55 @@ export class NotebookListView extends AbstractView {
     private _container: JQuery;
     private _notebooks: Map<Notebook, INotebookView>;
 
+    private _tagContainer: JQuery;
+    private _tags: Map<string, ITagView>;
+    // only notes carrying this tag are shown if setted
+    private _filterTag: string;
+    // note being dragged onto another notebook
+    private _draggingNote: Note;
+
+    private _trashContainer: JQuery;
+    private _trashEl: JQuery;
+
+    private _favoritesContainer: JQuery;
+    private _recentContainer: JQuery;
+    // notes opened lately, the latest one goes first
+    private _recentNotes: Note[];
+    // library -> recent notes of the libraries not opened
+    private _otherRecentNotes: Map<string, Note[]>;
+    // element of favorite or recent note -> the note
+    private _shortcuts: Map<Element, Note>;
+
     constructor() {
         super('#notebook-list');
         this._container = this._el.find('.notebooks-container');
         this._notebooks = new Map();
+
+        this._tagContainer = this._el.find('.tags-container');
+        this._tags = new Map();
+        this._filterTag = null;
+
+        this._trashContainer = this._el.find('.trash-container');
+        this._trashEl = $(trashHtml(0)).appendTo(this._trashContainer);
+        this._trashEl.find('.trash-items').collapse({
+            toggle: false
+        });
+
+        this._favoritesContainer = this._el.find('.favorites-container');
+        this._recentContainer = this._el.find('.recent-container');
+        this._recentNotes = [];
+        this._otherRecentNotes = new Map();
+        this._shortcuts = new Map();
     }
 
     init() {
         this._initLoadNotesHandlers();
         this._initNotebookHandlers();
         this._initNoteHandlers();
+        this._initDragHandlers();
+        this._initTagHandlers();
+        this._initTrashHandlers();
+        this._initShortcutHandlers();
 
         this._initContextMenu();
     }
@@ -111,6 +259,15 @@ export class NotebookListView extends AbstractView {
     private _initLoadNotesHandlers() {
         // render notebook list when note index is loaded
         let manager = ServiceLocator.noteManager;
+
+        // lock icons of the encrypted notebooks and notes
+        [NoteManagerEvent.encryption_set, NoteManagerEvent.set_encryption_failed, NoteManagerEvent.note_moved,
+            NoteManagerEvent.notes_locked, NoteManagerEvent.notes_unlocked].forEach((event) => {
+            manager.on(event, () => {
+                this._updateEncryption();
+            });
+        });
+
         manager.on(NoteManagerEvent.loaded, () => {
             this.build();
         });
@@ -126,12 +283,12 @@ export class NotebookListView extends AbstractView {
 
         // click
         this._container.on('click', '.notebook', event => {
-            let name: string = $(event.currentTarget).attr('_data');
-            if (!name) { // creating notebook
+            let el = $(event.currentTarget);
+            if (!el.attr('_data')) { // creating notebook
                 return false;
             }
 
-            this.toggleNotebook(entities.decode(name));
+            this.toggleNotebook(this._getNotebookByEl(el));
             // stop event bubble and default action
             return false;
         });
@@ -139,41 +296,71 @@ export class NotebookListView extends AbstractView {
         // creation
         manager.on(NoteManagerEvent.create_notebook, (notebook: Notebook) => {
             this.addNotebook(notebook);
-            this.reorderNotebook();
+            this.reorderNotebook(notebook.parent);
+        });
+        manager.on(NoteManagerEvent.create_notebook_failed, (notebook: Notebook) => {
+            if (this._notebooks.has(notebook)) {
+                this.deleteNotebook(notebook);
+                this._removeNotebookViews(notebook);
+            }
         });
 
         // rename
         manager.on(NoteManagerEvent.rename_notebook, (notebook: Notebook) => {
-            let el = this._notebooks.get(notebook).el;
-            let newName = entities.encode(notebook.name);
-
-            // update notebook view
-            el.attr('_data', newName);
-            el.find('> a span').text(newName);
-
-            this.reorderNotebook();
+            this._updateNotebookName(notebook);
         });
         manager.on(NoteManagerEvent.notebook_renamed, (notebook: Notebook) => {
             this._notebooks.get(notebook).isRenaming = false;
         });
+        manager.on(NoteManagerEvent.rename_notebook_failed, (oldName: string, notebook: Notebook) => {
+            // name of the notebook is rolled back
+            this._updateNotebookName(notebook);
+            this._notebooks.get(notebook).isRenaming = false;
+        });
 
         // deletion
         manager.on(NoteManagerEvent.delete_notebook, (notebook: Notebook) => {
             this.deleteNotebook(notebook);
 
         });
+        manager.on(NoteManagerEvent.delete_notebook_failed, (notebook: Notebook) => {
+            // views of the removed element are rebuilt
+            this.addNotebook(notebook);
+            this.reorderNotebook(notebook.parent);
+        });
         manager.on(NoteManagerEvent.notebook_deleted, (notebook: Notebook) => {
-            this._notebooks.get(notebook).notes.clear();
-            this._notebooks.delete(notebook);
+            this._removeNotebookViews(notebook);
         });
     }
 
+    /**
+     * Remove views of the notebook and its sub notebooks
+     */
+    private _removeNotebookViews(notebook: Notebook) {
+        for (let subNotebook of Array.from(this._notebooks.keys())) {
+            if (notebook.contains(subNotebook)) {
+                this._notebooks.get(subNotebook).notes.clear();
+                this._notebooks.delete(subNotebook);
+            }
+        }
+    }
+
+    private _updateNotebookName(notebook: Notebook) {
+        let el = this._notebooks.get(notebook).el;
+        let newName = entities.encode(notebook.name);
+
+        // update notebook view
+        el.attr('_data', newName);
+        el.find('> a span').text(newName);
+
+        this.reorderNotebook(notebook.parent);
+    }
+
     private _initNoteHandlers() {
         let manager = ServiceLocator.noteManager;
 
         // click
         this._container.on('click', '.note', event => {
-            let manager = ServiceLocator.noteManager;
             let el = $(event.currentTarget);
 
             let noteName: string = el.attr('_data');
@@ -181,7 +368,7 @@ export class NotebookListView extends AbstractView {
                 return false;
             }
 
-            let note = manager.notebooks.get(entities.decode(el.parents('.notebook').attr('_data')))
+            let note = this._getNotebookByEl(el.parents('.notebook').first())
                 .notes
                 .get(entities.decode(noteName));
 
@@ -200,21 +387,36 @@ export class NotebookListView extends AbstractView {
         // save
         manager.on(NoteManagerEvent.note_saved, (note: Note) => {
             this.saveNote(note);
+            if (note.notebook.sortMode === 'modified') {
+                this.reorderNote(note.notebook);
+            }
         });
         manager.on(NoteManagerEvent.save_note_failed, (note: Note) => {
             // TODO: do some clean work
         });
 
+        // changed outside
+        manager.on(NoteManagerEvent.note_reloaded, (note: Note) => {
+            this.noteChange(note);
+            if (note.notebook.sortMode === 'modified') {
+                this.reorderNote(note.notebook);
+            }
+        });
+        manager.on(NoteManagerEvent.missing_notes_changed, () => {
+            this._notebooks.forEach((notebookView: INotebookView) => {
+                notebookView.notes.forEach((noteView: INoteView, note: Note) => {
+                    noteView.el.toggleClass('missing', manager.isMissingNote(note));
+                });
+            });
+        });
+
         // creation
         manager.on(NoteManagerEvent.create_note, (note: Note) => {
             this.addNote(note);
             this.reorderNote(note.notebook);
 
-            let notebookView = this._notebooks.get(note.notebook);
             // if note list is hidden, open it!
-            if (notebookView.noteCon.is(':hidden')) {
-                this.toggleNotebook(note.notebook.name);
-            }
+            this.expandNotebook(note.notebook);
 
             this.selectNote(note, NoteView.LivePreview);
             if (note.changed) {
@@ -222,33 +424,436 @@ export class NotebookListView extends AbstractView {
             }
         });
 
+        manager.on(NoteManagerEvent.create_note_failed, (note: Note) => {
+            // note of the orphan note has no notebook after rolled back
+            this._notebooks.forEach((notebookView: INotebookView) => {
+                if (notebookView.notes.has(note)) {
+                    notebookView.notes.get(note).el.remove();
+                    notebookView.notes.delete(note);
+                }
+            });
+        });
+
         // rename
         manager.on(NoteManagerEvent.rename_note, (note: Note) => {
-            let el = this._notebooks.get(note.notebook).notes.get(note).el;
-            let newName = entities.encode(note.name);
-
-            // update note view
-            el.attr('_data', newName);
-            el.find('> a').text(newName);
-
-            this.reorderNote(note.notebook);
+            this._updateNoteName(note);
         });
         manager.on(NoteManagerEvent.note_renamed, (note: Note) => {
             this._notebooks.get(note.notebook).notes.get(note).isRenaming = false;
         });
+        manager.on(NoteManagerEvent.rename_note_failed, (newName: string, note: Note) => {
+            // name of the note is rolled back
+            this._updateNoteName(note);
+            this._notebooks.get(note.notebook).notes.get(note).isRenaming = false;
+        });
+
+        // move
+        manager.on(NoteManagerEvent.move_note, (note: Note, oldNotebook: Notebook) => {
+            this.moveNote(note, oldNotebook);
+        });
+        manager.on(NoteManagerEvent.move_note_failed, (note: Note) => {
+            // note is moved back, while its view may be in the target notebook
+            this._notebooks.forEach((notebookView: INotebookView, notebook: Notebook) => {
+                if (notebook !== note.notebook && notebookView.notes.has(note)) {
+                    this.moveNote(note, notebook);
+                }
+            });
+        });
 
         // deletion
         manager.on(NoteManagerEvent.delete_note, (note: Note) => {
             this.deleteNote(note);
         });
+        manager.on(NoteManagerEvent.delete_note_failed, (note: Note) => {
+            this.addNote(note);
+            this.reorderNote(note.notebook);
+        });
         manager.on(NoteManagerEvent.note_deleted, (note: Note) => {
             this._notebooks.get(note.notebook).notes.delete(note);
         });
+
+        // sort, notes are rolled back to their order on failure
+        [NoteManagerEvent.sort_notes, NoteManagerEvent.sort_notes_failed].forEach((event) => {
+            manager.on(event, (notebook: Notebook) => {
+                this.reorderNote(notebook);
+            });
+        });
+    }
+
+    private _updateNoteName(note: Note) {
+        let el = this._notebooks.get(note.notebook).notes.get(note).el;
+        let newName = entities.encode(note.name);
+
+        // update note view
+        el.attr('_data', newName);
+        el.find('> a').text(newName);
+
+        this.reorderNote(note.notebook);
+    }
+
+    private _initTagHandlers() {
+        let manager = ServiceLocator.noteManager;
+
+        // click
+        this._tagContainer.on('click', '.tag', event => {
+            let tag: string = entities.decode($(event.currentTarget).attr('_data'));
+
+            // click active tag again to clear the filter
+            this.filterByTag(tag === this._filterTag ? null : tag);
+            // stop event bubble and default action
+            return false;
+        });
+
+        // rebuild tag list when tags change
+        manager.on(NoteManagerEvent.tags_changed, () => {
+            this.buildTags();
+        });
+
+        // rename
+        manager.on(NoteManagerEvent.tag_renamed, (oldTag: string, newTag: string) => {
+            if (this._filterTag === oldTag) {
+                this.filterByTag(newTag);
+            }
+        });
+        manager.on(NoteManagerEvent.rename_tag_failed, (oldTag: string) => {
+            let view = this._tags.get(oldTag);
+            if (view) {
+                view.isRenaming = false;
+            }
+        });
     }
 
-    toggleNotebook(name: string) {
+    private _initTrashHandlers() {
         let manager = ServiceLocator.noteManager;
-        let view = this._getNotebookView(manager.notebooks.get(name));
+
+        // click
+        this._trashEl.on('click', '> a', () => {
+            this._trashEl.toggleClass('open');
+            this._trashEl.find('.trash-items').collapse('toggle');
+            // stop event bubble and default action
+            return false;
+        });
+
+        // rebuild trash list when trash changes
+        manager.on(NoteManagerEvent.trash_changed, () => {
+            this.buildTrash();
+        });
+    }
+
+    private _initShortcutHandlers() {
+        let manager = ServiceLocator.noteManager;
+
+        // click
+        this._el.on('click', '.shortcut', (event) => {
+            let note = this._shortcuts.get(event.currentTarget);
+            if (note) {
+                this.expandNotebook(note.notebook);
+                this.selectNote(note);
+            }
+            // stop event bubble and default action
+            return false;
+        });
+
+        // recent notes are kept by library, notes of another library never take their places
+        manager.on(NoteManagerEvent.switch_library, (name: string, oldName: string) => {
+            this._otherRecentNotes.set(oldName, this._recentNotes);
+            this._recentNotes = this._otherRecentNotes.get(name) || [];
+            this._otherRecentNotes.delete(name);
+        });
+
+        // notes of another index, recent ones are found by their paths
+        manager.on(NoteManagerEvent.reload, () => {
+            this._recentNotes = this._recentNotes.map((note) => {
+                let notebook = manager.getNotebook(note.notebook.path);
+                return notebook ? notebook.notes.get(note.name) : null;
+            }).filter((note) => note);
+        });
+
+        // deleted notes are dropped from recent notes
+        manager.on(NoteManagerEvent.note_deleted, (note: Note) => {
+            this._recentNotes = this._recentNotes.filter((item) => item !== note);
+        });
+        manager.on(NoteManagerEvent.notebook_deleted, (notebook: Notebook) => {
+            this._recentNotes = this._recentNotes.filter((item) => !notebook.contains(item.notebook));
+        });
+
+        // names and notebooks are shown, so rebuild on any change of them
+        [NoteManagerEvent.loaded, NoteManagerEvent.reload,
+            NoteManagerEvent.set_favorite, NoteManagerEvent.set_favorite_failed,
+            NoteManagerEvent.rename_note, NoteManagerEvent.rename_note_failed,
+            NoteManagerEvent.move_note, NoteManagerEvent.move_note_failed,
+            NoteManagerEvent.delete_note, NoteManagerEvent.delete_note_failed, NoteManagerEvent.note_deleted,
+            NoteManagerEvent.rename_notebook, NoteManagerEvent.rename_notebook_failed,
+            NoteManagerEvent.delete_notebook, NoteManagerEvent.delete_notebook_failed, NoteManagerEvent.notebook_deleted,
+            NoteManagerEvent.trash_item_restored, NoteManagerEvent.index_reconciled].forEach((event) => {
+            manager.on(event, () => {
+                this.buildShortcuts();
+            });
+        });
+    }
+
+    /**
+     * Render favorite notes and recent notes
+     */
+    buildShortcuts() {
+        let manager = ServiceLocator.noteManager;
+        // deleted notes are still in the list while deleting
+        let isListed = (note: Note) => {
+            let notebook = note.notebook;
+            return notebook && manager.getNotebook(notebook.path) === notebook && notebook.notes.get(note.name) === note;
+        };
+
+        let favorites: Note[] = [];
+        for (let notebook of manager.walkNotebooks()) {
+            for (let note of notebook.notes.values()) {
+                if (note.favorite && isListed(note)) {
+                    favorites.push(note);
+                }
+            }
+        }
+
+        this._shortcuts = new Map();
+        this._buildShortcutList(this._favoritesContainer, sortByName(favorites), 'fa fa-star');
+        this._buildShortcutList(this._recentContainer, this._recentNotes.filter(isListed), 'fa fa-clock-o');
+    }
+
+    private _buildShortcutList(container: JQuery, notes: Note[], icon: string) {
+        container.empty();
+        notes.forEach((note) => {
+            let el = $(shortcutHtml(note, icon)).appendTo(container);
+            this._shortcuts.set(el[0], note);
+        });
+
+        // title goes right before the list, hidden along with the empty list
+        container.prev('.menu-title').addBack().toggleClass('empty', notes.length === 0);
+    }
+
+    /**
+     * Put the note on the top of recent notes
+     */
+    addRecentNote(note: Note) {
+        if (!note.notebook) {
+            return;
+        }
+
+        this._recentNotes = [note].concat(this._recentNotes.filter((item) => item !== note)).slice(0, RECENT_COUNT);
+        this.buildShortcuts();
+    }
+
+    toggleFavorite(note: Note) {
+        ServiceLocator.noteManager.setFavorite(note, !note.favorite);
+    }
+
+    buildTrash() {
+        let items = ServiceLocator.noteManager.trashItems;
+        let container = this._trashEl.find('.trash-items');
+
+        this._trashEl.find('.trash-count').text(items.length || '');
+        container.empty();
+        // recently deleted items go first
+        items.reverse().forEach((item: ITrashItem) => {
+            container.append(trashItemHtml(item));
+        });
+    }
+
+    restoreTrashItem(item: ITrashItem) {
+        let manager = ServiceLocator.noteManager;
+        try {
+            manager.restoreTrashItem(item);
+        } catch (e) {
+            ServiceLocator.alerter.warn(e.message);
+        }
+    }
+
+    deleteTrashItem(item: ITrashItem) {
+        let response = ServiceLocator.dialog.messsageBox({
+            type: 'warning',
+            message: `Delete ${item.name} permanently?`,
+            detail: 'You cannot restore it any more!',
+            defaultId: 1,
+            buttons: ['Delete', 'Cancel']
+        });
+        if (response) { // cancel
+            return;
+        }
+
+        ServiceLocator.noteManager.deleteTrashItem(item);
+    }
+
+    private _initDragHandlers() {
+        let container = this._container;
+        let clearDropTarget = () => {
+            container.find(`.${DROP_TARGET_CLASS}, .${DROP_BEFORE_CLASS}, .${DROP_AFTER_CLASS}`)
+                .removeClass(`${DROP_TARGET_CLASS} ${DROP_BEFORE_CLASS} ${DROP_AFTER_CLASS}`);
+        };
+        let getNote = (el: JQuery): Note => {
+            return this._getNotebookByEl(el.parents('.notebook').first())
+                .notes
+                .get(entities.decode(el.attr('_data')));
+        };
+        // notes sorted by hand are arranged by dropping them on the notes of the same notebook
+        let isArranging = (el: JQuery): boolean => {
+            let note = this._draggingNote;
+            let notebookEl = el.parents('.notebook').first();
+            return !!note && !!el.attr('_data') && note.notebook.sortMode === 'manual'
+                && this._getNotebookByEl(notebookEl) === note.notebook;
+        };
+        let isUpperHalf = (event: JQueryEventObject): boolean => {
+            let rect = event.currentTarget.getBoundingClientRect();
+            return (event.originalEvent as DragEvent).clientY < rect.top + rect.height / 2;
+        };
+
+        container.on('dragstart', '.note', (event) => {
+            this._draggingNote = getNote($(event.currentTarget));
+
+            (event.originalEvent as DragEvent).dataTransfer.effectAllowed = 'move';
+        }).on('dragend', '.note', () => {
+            this._draggingNote = null;
+            clearDropTarget();
+        });
+
+        container.on('dragover', '.note', (event) => {
+            let el = $(event.currentTarget);
+            if (!isArranging(el)) {
+                // moved into the notebook of the note, if it's another one
+                return;
+            }
+
+            let before = isUpperHalf(event);
+            clearDropTarget();
+            el.addClass(before ? DROP_BEFORE_CLASS : DROP_AFTER_CLASS);
+            (event.originalEvent as DragEvent).dataTransfer.dropEffect = 'move';
+            // allow drop
+            event.preventDefault();
+            event.stopPropagation();
+        }).on('dragleave', '.note', (event) => {
+            $(event.currentTarget).removeClass(`${DROP_BEFORE_CLASS} ${DROP_AFTER_CLASS}`);
+        }).on('drop', '.note', (event) => {
+            let el = $(event.currentTarget);
+            if (!isArranging(el)) {
+                return;
+            }
+
+            let note = this._draggingNote;
+            // the note dropped after is put before the next one
+            let nextEl = isUpperHalf(event) ? el : el.nextAll('.note').first();
+
+            clearDropTarget();
+            this._draggingNote = null;
+            try {
+                ServiceLocator.noteManager.arrangeNote(note, nextEl.length ? getNote(nextEl) : null);
+            } catch (e) {
+                ServiceLocator.alerter.warn(e.message);
+            }
+            // stop event bubble and default action
+            return false;
+        });
+
+        // the innermost notebook under the cursor is the drop target
+        container.on('dragover', '.notebook', (event) => {
+            let note = this._draggingNote;
+            let el = $(event.currentTarget);
+            if (!note || !el.attr('_data')) {
+                return;
+            }
+
+            let notebook = this._getNotebookByEl(el);
+            if (notebook !== note.notebook) {
+                clearDropTarget();
+                el.addClass(DROP_TARGET_CLASS);
+                (event.originalEvent as DragEvent).dataTransfer.dropEffect = 'move';
+                // allow drop
+                event.preventDefault();
+            }
+            event.stopPropagation();
+        }).on('dragleave', '.notebook', (event) => {
+            $(event.currentTarget).removeClass(DROP_TARGET_CLASS);
+        }).on('drop', '.notebook', (event) => {
+            let note = this._draggingNote;
+            let notebook = this._getNotebookByEl($(event.currentTarget));
+
+            clearDropTarget();
+            this._draggingNote = null;
+            if (note && notebook) {
+                try {
+                    ServiceLocator.noteManager.moveNote(note, notebook);
+                } catch (e) {
+                    ServiceLocator.alerter.warn(e.message);
+                }
+            }
+            // stop event bubble and default action
+            return false;
+        });
+    }
+
+    buildTags() {
+        let tags = ServiceLocator.noteManager.tags;
+        let container = this._tagContainer;
+
+        container.empty();
+        this._tags = new Map();
+        Array.from(tags.keys()).sort().forEach((tag: string) => {
+            let view: ITagView = {
+                el: $(tagHtml(tag, tags.get(tag))),
+                isEditing: false,
+                isRenaming: false
+            };
+
+            this._tags.set(tag, view);
+            container.append(view.el);
+        });
+
+        // tag no longer exists
+        if (this._filterTag && !tags.has(this._filterTag)) {
+            this._filterTag = null;
+        }
+        this.filterByTag(this._filterTag);
+    }
+
+    filterByTag(tag: string) {
+        let manager = ServiceLocator.noteManager;
+        this._filterTag = tag;
+
+        this._tags.forEach((view: ITagView, name: string) => {
+            view.el.toggleClass('active', name === tag);
+        });
+
+        // return count of visible notes under the notebook
+        let filter = (notebook: Notebook): number => {
+            let notebookView = this._notebooks.get(notebook);
+            let visibleCount = 0;
+
+            if (!notebookView) {
+                return 0;
+            }
+
+            for (let subNotebook of notebook.notebooks.values()) {
+                visibleCount += filter(subNotebook);
+            }
+
+            notebookView.notes.forEach((noteView: INoteView, note: Note) => {
+                let visible = !tag || manager.hasTag(note, tag);
+                noteView.el.toggle(visible);
+                visibleCount += visible ? 1 : 0;
+            });
+
+            notebookView.el.toggle(!tag || visibleCount !== 0);
+
+            // show the matched notes
+            if (tag && visibleCount && !notebookView.el.hasClass('open')) {
+                this.toggleNotebook(notebook);
+            }
+
+            return visibleCount;
+        };
+
+        for (let notebook of manager.notebooks.values()) {
+            filter(notebook);
+        }
+    }
+
+    toggleNotebook(notebook: Notebook) {
+        let view = this._getNotebookView(notebook);
 
         if (view.isEditing) {
             return;
@@ -258,6 +863,22 @@ export class NotebookListView extends AbstractView {
         view.coll.collapse('toggle');
     }
 
+    /**
+     * Open the notebook and all its parent notebooks
+     */
+    expandNotebook(notebook: Notebook) {
+        let notebooks: Notebook[] = [];
+        for (; notebook; notebook = notebook.parent) {
+            notebooks.unshift(notebook);
+        }
+
+        notebooks.forEach((notebook) => {
+            if (!this._getNotebookView(notebook).el.hasClass('open')) {
+                this.toggleNotebook(notebook);
+            }
+        });
+    }
+
     selectNote(note: Note, view?: NoteView) {
         let notebookView = this._getNotebookView(note.notebook);
         let noteView = this._getNoteView(notebookView, note);
@@ -267,8 +888,29 @@ export class NotebookListView extends AbstractView {
         } else if (noteView.isRenaming || notebookView.isRenaming) {
             ServiceLocator.alerter.warn('Performing rename action');
             return;
+        } else if (ServiceLocator.noteManager.isMissingNote(note)) {
+            ServiceLocator.alerter.warn(`File of note: _${note.name}_ is missing`);
+            return;
+        } else if (note.locked) {
+            ViewManager.modal.open('unlock-notes', () => {
+                this.selectNote(note, view);
+            });
+            return;
         }
 
+        this.activateNote(note);
+
+        // trigger select note event
+        this.emit(Event.select_note, note, view);
+    }
+
+    /**
+     * Highlight note and its notebook as the active ones
+     */
+    activateNote(note: Note) {
+        let notebookView = this._getNotebookView(note.notebook);
+        let noteView = this._getNoteView(notebookView, note);
+
         let activeNote = App.getInstance().activeNote;
         if (note !== activeNote || !notebookView.el.hasClass('active')) {
             if (activeNote !== ServiceLocator.noteManager.orphanNote) {
@@ -281,9 +923,16 @@ export class NotebookListView extends AbstractView {
             notebookView.el.addClass('active');
             noteView.el.addClass('active');
         }
+    }
 
-        // trigger select note event
-        this.emit(Event.select_note, note, view);
+    /**
+     * Find notebook by notebook element and its parent notebook elements
+     */
+    private _getNotebookByEl(el: JQuery): Notebook {
+        let path = el.parents('.notebook').get().reverse().concat(el.get()).map((dom: HTMLElement) => {
+            return entities.decode(dom.getAttribute('_data'));
+        });
+        return ServiceLocator.noteManager.getNotebook(path);
     }
 
     private _getNotebookView(notebook: Notebook): INotebookView {
@@ -358,7 +1007,7 @@ export class NotebookListView extends AbstractView {
     }
 
     addNotebook(notebook: Notebook): INotebookView {
-        let el = $(notebookHtml(notebook.name));
+        let el = $(notebookHtml(notebook.name, notebook.depth)).toggleClass('encrypted', notebook.encrypted);
         let noteCon = el.find('.notes');
         let view: INotebookView = {
             el: el,
@@ -374,9 +1023,14 @@ export class NotebookListView extends AbstractView {
         };
 
         this._notebooks.set(notebook, view);
+        for (let subNotebook of notebook.notebooks.values()) {
+            this.addNotebook(subNotebook);
+        }
         for (let note of notebook.notes.values()) {
-            noteCon.append(this.addNote(note).el);
+            this.addNote(note);
         }
+        // in the sort mode of the notebook, e.g. when the list is rebuilt
+        this._reorder(notebook);
 
         return view;
     }
@@ -384,59 +1038,78 @@ export class NotebookListView extends AbstractView {
     addNote(note: Note): INoteView {
         let notebookView = this._getNotebookView(note.notebook);
         let noteView: INoteView = {
-            el: $(noteHtml(note.name)),
+            el: $(noteHtml(note.name, note.notebook.depth)),
             changeFlagEl: null,
             isEditing: false,
             isRenaming: false
         };
 
+        noteView.el.toggleClass('missing', ServiceLocator.noteManager.isMissingNote(note));
+        noteView.el.toggleClass('encrypted', note.isEncrypted);
+
         notebookView.notes.set(note, noteView);
         return noteView;
     }
 
-    reorderNotebook() {
-        let views: { [name: string]: INotebookView } = {};
-        this._notebooks.forEach((view: INotebookView, notebook: Notebook) => {
-            views[notebook.name] = view;
-        });
+    reorderNotebook(parent: Notebook = null) {
+        if (parent) {
+            this._reorder(parent);
+            return;
+        }
 
         let container = this._container;
-        container.empty();
-        Object.keys(views).sort().forEach((name: string) => {
-            let view = views[name];
-            container.append(view.el);
-            // recreate collapse object
-            view.coll = view.noteCon.collapse({
-                // TODO: remember collapse status
-                toggle: false
-            });
+        let notebooks = Array.from(ServiceLocator.noteManager.notebooks.values());
+
+        // detach instead of empty to keep the collapse objects
+        container.children().detach();
+        sortByName(notebooks).forEach((notebook: Notebook) => {
+            container.append(this._notebooks.get(notebook).el);
         });
     }
 
     reorderNote(notebook: Notebook) {
-        let views: { [name: string]: INoteView } = {};
-        let notebookView: INotebookView = this._notebooks.get(notebook);
-        notebookView.notes.forEach((view: INoteView, note: Note) => {
-            views[note.name] = view;
-        });
+        this._reorder(notebook);
+    }
 
+    /**
+     * Sort sub notebooks by name and notes in the sort mode of the notebook, sub notebooks go first
+     */
+    private _reorder(notebook: Notebook) {
+        let notebookView: INotebookView = this._notebooks.get(notebook);
         let container = notebookView.noteCon;
-        container.empty();
-        Object.keys(views).sort().forEach((name: string) => {
-            container.append(views[name].el);
+
+        container.children().detach();
+        sortByName(Array.from(notebook.notebooks.values())).forEach((subNotebook: Notebook) => {
+            let view = this._notebooks.get(subNotebook);
+            if (view) {
+                container.append(view.el);
+            }
+        });
+        sortNotes(notebookView.notes.keys(), notebook).forEach((note: Note) => {
+            container.append(notebookView.notes.get(note).el);
         });
     }
 
     private _initContextMenu() {
         let note: Note; // clicked note
         let notebook: Notebook; // clicked notebook
+        let tag: string; // clicked tag
+        let trashItem: ITrashItem; // clicked trash item
 
         const manager = ServiceLocator.noteManager;
 
         const menuItemLabel = {
             newNote: 'New Note',
             newNotebook: 'New Notebook',
+            newSubNotebook: 'New Sub Notebook',
             rename: 'Rename',
+            moveTo: 'Move to…',
+            template: 'Default Template…',
+            sort: 'Sort Notes By…',
+            exportHtml: 'Export as HTML…',
+            exportPdf: 'Export as PDF…',
+            encrypt: 'Encrypted',
+            favorite: 'Favorite',
             delete: 'Delete',
             read: 'Read Note',
             edit: 'Edit Note',
@@ -455,6 +1128,12 @@ export class NotebookListView extends AbstractView {
                     this.createNotebook();
                 }
             },
+            {
+                label: menuItemLabel.newSubNotebook,
+                click: () => {
+                    this.createNotebook(notebook);
+                }
+            },
             { type: 'separator' },
             {
                 label: menuItemLabel.read,
@@ -486,6 +1165,62 @@ export class NotebookListView extends AbstractView {
                     }
                 }
             },
+            {
+                label: menuItemLabel.moveTo,
+                click: () => {
+                    this.moveNoteTo(note);
+                }
+            },
+            {
+                label: menuItemLabel.template,
+                click: () => {
+                    this.chooseNotebookTemplate(notebook);
+                }
+            },
+            {
+                label: menuItemLabel.sort,
+                click: () => {
+                    this.chooseSortMode(notebook);
+                }
+            },
+            {
+                label: menuItemLabel.favorite,
+                type: 'checkbox',
+                click: () => {
+                    this.toggleFavorite(note);
+                }
+            },
+            {
+                label: menuItemLabel.encrypt,
+                type: 'checkbox',
+                click: () => {
+                    this.toggleEncryption(note || notebook);
+                }
+            },
+            {
+                label: menuItemLabel.exportHtml,
+                click: () => {
+                    if (note) {
+                        this.exportNote(note);
+                    } else {
+                        this.exportNotebook(notebook);
+                    }
+                }
+            },
+            {
+                label: menuItemLabel.exportPdf,
+                click: () => {
+                    if (note && note.locked) {
+                        ViewManager.modal.open('unlock-notes', () => {
+                            ViewManager.modal.open('export-pdf', [note], note.name, note.slug);
+                        });
+                    } else if (note) {
+                        ViewManager.modal.open('export-pdf', [note], note.name, note.slug);
+                    } else {
+                        ViewManager.modal.open('export-pdf', getPrintableNotes(notebook), notebook.name, notebook.slug);
+                    }
+                }
+            },
             {
                 label: menuItemLabel.delete,
                 click: () => {
@@ -526,21 +1261,87 @@ export class NotebookListView extends AbstractView {
 
         const menu = Menu.buildFromTemplate(template);
 
+        const tagMenu = Menu.buildFromTemplate([
+            {
+                label: 'Rename Tag',
+                click: () => {
+                    this.renameTag(tag);
+                }
+            },
+        ]);
+
+        const trashMenu = Menu.buildFromTemplate([
+            {
+                label: 'Empty Trash',
+                click: () => {
+                    App.getInstance().execCommand('emptyTrash');
+                }
+            },
+        ]);
+
+        const trashItemMenu = Menu.buildFromTemplate([
+            {
+                label: 'Restore',
+                click: () => {
+                    this.restoreTrashItem(trashItem);
+                }
+            },
+            {
+                label: 'Delete Permanently',
+                click: () => {
+                    this.deleteTrashItem(trashItem);
+                }
+            },
+        ]);
+
         this._el.on('contextmenu', (event) => {
             let el = $(event.target);
+
+            let trashItemEl = el.closest('.trash-item');
+            if (trashItemEl.length) {
+                trashItem = ServiceLocator.noteManager.trashItems.filter((item) => {
+                    return item.id === entities.decode(trashItemEl.attr('_data'));
+                })[0];
+                if (trashItem) {
+                    trashItemMenu.popup(getCurrentWindow());
+                }
+                // stop event bubble and default action
+                return false;
+            }
+            if (el.closest('.trash').length) {
+                trashMenu.items[0].enabled = ServiceLocator.noteManager.trashItems.length !== 0;
+                trashMenu.popup(getCurrentWindow());
+                // stop event bubble and default action
+                return false;
+            }
+
+            let tagEl = el.closest('.tag');
+            if (tagEl.length) {
+                tag = entities.decode(tagEl.attr('_data'));
+                tagMenu.popup(getCurrentWindow());
+                // stop event bubble and default action
+                return false;
+            }
             let notebookEl = el.parents('.notebook');
             let noteEl = el.parents('.note');
+            let shortcutEl = el.closest('.shortcut');
 
             // unset notebook and note first
             notebook = null;
             note = null;
 
             if (notebookEl.length) {
-                notebook = manager.notebooks.get(entities.decode(notebookEl.attr('_data')));
+                notebook = this._getNotebookByEl(notebookEl.first());
             }
             if (noteEl.length) {
                 note = notebook.notes.get(entities.decode(noteEl.attr('_data')));
             }
+            // favorite or recent note, it's renamed in the notebook list only
+            let isShortcut = shortcutEl.length !== 0 && this._shortcuts.has(shortcutEl[0]);
+            if (isShortcut) {
+                note = this._shortcuts.get(shortcutEl[0]);
+                notebook = note.notebook;
+            }
 
             menu.items.forEach((item: Electron.MenuItem) => {
                 let label = item.label;
@@ -552,16 +1353,40 @@ export class NotebookListView extends AbstractView {
                 if (note) {
                     if (menuItemLabel.read === label
                         || menuItemLabel.edit === label
-                        || menuItemLabel.livePreview === label) {
+                        || menuItemLabel.livePreview === label
+                        || menuItemLabel.moveTo === label) {
                         item.enabled = true;
                     }
+                    if (menuItemLabel.favorite === label) {
+                        item.checked = note.favorite;
+                        item.enabled = true;
+                    }
+                } else if (menuItemLabel.favorite === label) {
+                    item.checked = false;
                 }
                 if (notebook) {
                     if (menuItemLabel.newNote === label
+                        || menuItemLabel.newSubNotebook === label
                         || menuItemLabel.rename === label
+                        || menuItemLabel.exportHtml === label
+                        || menuItemLabel.exportPdf === label
                         || menuItemLabel.delete === label) {
                         item.enabled = true;
                     }
+                    if (!note && (menuItemLabel.template === label || menuItemLabel.sort === label)) {
+                        item.enabled = true;
+                    }
+                    if (menuItemLabel.encrypt === label) {
+                        let parent = note ? note.notebook : notebook.parent;
+                        item.checked = (note || notebook).isEncrypted;
+                        // encrypted along with the notebook
+                        item.enabled = !(parent && parent.isEncrypted);
+                    }
+                }
+                if (isShortcut && (menuItemLabel.newNote === label
+                    || menuItemLabel.newSubNotebook === label
+                    || menuItemLabel.rename === label)) {
+                    item.enabled = false;
                 }
             });
 
@@ -576,9 +1401,13 @@ export class NotebookListView extends AbstractView {
         let container = this._container;
 
         container.empty();
+        container.toggleClass('unlocked', ServiceLocator.keyRing.unlocked);
         for (let notebook of notebooks.values()) {
-            container.append(this.addNotebook(notebook).el);
+            this.addNotebook(notebook);
         }
+        this.reorderNotebook();
+
+        this.filterByTag(this._filterTag);
     }
 
     clearActiveNote() {
@@ -593,31 +1422,210 @@ export class NotebookListView extends AbstractView {
         noteView.el.removeClass('active');
     }
 
-    createNotebook() {
-        this._create($(notebookHtml()), $(editNotebookHtml()), this._container, (name: string) => {
-            let notebook = ServiceLocator.noteManager.createNotebook(name);
+    createNotebook(parent: Notebook = null) {
+        let cb = (name: string) => {
+            let notebook = ServiceLocator.noteManager.createNotebook(name, parent);
+        };
+
+        if (!parent) {
+            this._create($(notebookHtml()), $(editNotebookHtml()), this._container, cb);
+            return;
+        }
+
+        let view: INotebookView = this._notebooks.get(parent);
+        let depth = parent.depth + 1;
+        this._openThen(parent, () => {
+            this._create($(notebookHtml('', depth)), $(editNotebookHtml('', depth)), view.noteCon, cb, view);
         });
     }
 
     createNote(notebook: Notebook) {
+        let manager = ServiceLocator.noteManager;
         let view: INotebookView = this._notebooks.get(notebook);
         let noteCon: JQuery = view.noteCon;
+        let editEl = $(editNoteHtml('', notebook.depth));
+        let pickerEl = $(TEMPLATE_PICKER_HTML).hide().appendTo(editEl);
+
+        manager.getTemplates().then((templates: string[]) => {
+            if (templates.length) {
+                pickerEl.append(templatePickerHtml(templates, notebook.template)).show();
+            }
+        }).catch((e) => {
+            ServiceLocator.logger.error(e);
+        });
 
         let cb = (name: string) => {
-            let note = ServiceLocator.noteManager.createNote(name, notebook);
+            // default template of the notebook is used until templates are loaded
+            let template = pickerEl.children().length ? pickerEl.val() || null : undefined;
+            let note = manager.createNote(name, notebook, false, template);
         };
 
-        // If the notebook is hidden, open it
-        // TODO: do not use collapse to open, show it!
-        if (!view.el.hasClass('open')) {
-            noteCon.one('shown.bs.collapse', () => {
-                this._create($(noteHtml()), $(editNoteHtml()), noteCon, cb, view);
+        this._openThen(notebook, () => {
+            this._create($(noteHtml('', notebook.depth)), editEl, noteCon, cb, view);
+        });
+    }
+
+    /**
+     * Let user choose how notes of the notebook are sorted, notes are dragged to arrange them by hand
+     */
+    chooseSortMode(notebook: Notebook) {
+        let items = SORT_MODE_LABELS.map(([sortMode, label]): Electron.MenuItemOptions => {
+            return {
+                label,
+                type: 'radio',
+                checked: notebook.sortMode === sortMode,
+                click: () => {
+                    ServiceLocator.noteManager.setSortMode(notebook, sortMode);
+                }
+            };
+        });
+
+        Menu.buildFromTemplate(items).popup(getCurrentWindow());
+    }
+
+    /**
+     * Let user choose the template new notes of the notebook start with
+     */
+    chooseNotebookTemplate(notebook: Notebook) {
+        let manager = ServiceLocator.noteManager;
+
+        manager.getTemplates().then((templates: string[]) => {
+            let item = (label: string, template: string): Electron.MenuItemOptions => {
+                return {
+                    label,
+                    type: 'radio',
+                    checked: notebook.template === template,
+                    click: () => {
+                        manager.setNotebookTemplate(notebook, template);
+                    }
+                };
+            };
+
+            let items = [item('No Template', null)];
+            if (templates.length) {
+                items.push({ type: 'separator' });
+                items = items.concat(templates.map((name) => item(name, name)));
+            } else {
+                items.push({ label: `Add templates to ${TEMPLATES_DIRNAME} of the note directory`, enabled: false });
+            }
+
+            Menu.buildFromTemplate(items).popup(getCurrentWindow());
+        }).catch((e) => {
+            ServiceLocator.alerter.fatal(`Cannot read templates: ${e.message}`);
+        });
+    }
+
+    /**
+     * Save the note as a standalone html file
+     */
+    exportNote(note: Note) {
+        if (note.locked) {
+            ViewManager.modal.open('unlock-notes', () => {
+                this.exportNote(note);
             });
-            this.toggleNotebook(notebook.name);
             return;
         }
 
-        this._create($(noteHtml()), $(editNoteHtml()), noteCon, cb, view);
+        let filename = remote.dialog.showSaveDialog(getCurrentWindow(), {
+            title: 'Export note as HTML',
+            defaultPath: join(remote.app.getPath('documents'), `${note.slug}.html`),
+            filters: [{ name: 'HTML', extensions: ['html'] }],
+        });
+        if (!filename) {
+            return;
+        }
+
+        exportNoteHtml(note, filename).then(() => {
+            ServiceLocator.alerter.info(`Exported ${note.name} to ${filename}`);
+        }).catch((e) => {
+            ServiceLocator.alerter.fatal(`Cannot export note: ${note.name}, ${e.message}`);
+        });
+    }
+
+    /**
+     * Encrypt the note/notebook or decrypt it, encrypted notes are unlocked first
+     */
+    toggleEncryption(item: Note | Notebook) {
+        if (!ServiceLocator.keyRing.unlocked) {
+            ViewManager.modal.open('unlock-notes', () => {
+                this.toggleEncryption(item);
+            });
+            return;
+        }
+
+        try {
+            ServiceLocator.noteManager.setEncrypted(item, !item.encrypted);
+        } catch (e) {
+            ServiceLocator.alerter.warn(e.message);
+        }
+    }
+
+    private _updateEncryption() {
+        this._container.toggleClass('unlocked', ServiceLocator.keyRing.unlocked);
+        this._notebooks.forEach((notebookView: INotebookView, notebook: Notebook) => {
+            notebookView.el.toggleClass('encrypted', notebook.encrypted);
+            notebookView.notes.forEach((noteView: INoteView, note: Note) => {
+                noteView.el.toggleClass('encrypted', note.isEncrypted);
+            });
+        });
+    }
+
+    /**
+     * Save notes of the notebook as html pages into a folder
+     */
+    exportNotebook(notebook: Notebook) {
+        let dirname = remote.dialog.showSaveDialog(getCurrentWindow(), {
+            title: 'Export notebook as HTML folder',
+            defaultPath: join(remote.app.getPath('documents'), notebook.slug),
+        });
+        if (!dirname) {
+            return;
+        }
+
+        if (existsSync(dirname)) {
+            let response = ServiceLocator.dialog.messsageBox({
+                type: 'warning',
+                message: `${basename(dirname)} already exists, export into it?`,
+                detail: 'Files with the same names will be overwritten!',
+                defaultId: 1,
+                buttons: ['Export', 'Cancel']
+            });
+            if (response) { // cancel
+                return;
+            }
+        }
+
+        exportNotebookHtml(notebook, dirname).then((count: number) => {
+            ServiceLocator.alerter.info(`Exported ${count} notes of ${notebook.name} to ${dirname}`);
+        }).catch((e) => {
+            ServiceLocator.alerter.fatal(`Cannot export notebook: ${notebook.name}, ${e.message}`);
+        });
+    }
+
+    /**
+     * Call the callback after the notebook is opened
+     */
+    private _openThen(notebook: Notebook, cb: () => void) {
+        let view: INotebookView = this._notebooks.get(notebook);
+        let noteCon: JQuery = view.noteCon;
+
+        if (view.el.hasClass('open')) {
+            cb();
+            return;
+        }
+
+        // If the notebook is hidden, open it
+        // TODO: do not use collapse to open, show it!
+        let shownHandler = (event) => {
+            // ignore events bubbled from sub notebooks
+            if (event.target !== noteCon.get(0)) {
+                return;
+            }
+            noteCon.off('shown.bs.collapse', shownHandler);
+            cb();
+        };
+        noteCon.on('shown.bs.collapse', shownHandler);
+        this.toggleNotebook(notebook);
     }
 
     private _create(el: JQuery, editEl: JQuery, container: JQuery, cb: (name: string) => void, view?: INotebookView) {
@@ -639,9 +1647,18 @@ export class NotebookListView extends AbstractView {
         editEl.prependTo(el);
         el.prependTo(container);
 
-        inputEl.focus().on('blur', () => {
-            removeCreate();
-        }).on('keyup', (event) => {
+        // inputs of the edit element, e.g. template picker, could take focus
+        editEl.on('blur', 'input, select', (event) => {
+            // element taking the focus, null if it's taken outside the window
+            let target = (event.originalEvent as FocusEvent).relatedTarget as Element;
+            if (!$.contains(editEl.get(0), target)) {
+                removeCreate();
+            }
+        }).on('change', 'select', () => {
+            inputEl.focus();
+        });
+
+        inputEl.focus().on('keyup', (event) => {
             if (KEYCODE_ESC === event.keyCode) {
                 removeCreate();
             } else if (KEYCODE_ENTER === event.keyCode) {
@@ -657,7 +1674,7 @@ export class NotebookListView extends AbstractView {
 
     renameNotebook(notebook: Notebook) {
         let view = this._notebooks.get(notebook);
-        this._rename(view, $(editNotebookHtml(notebook.name)), (newName: string) => {
+        this._rename(view, $(editNotebookHtml(notebook.name, notebook.depth)), (newName: string) => {
             // rename notebook
             ServiceLocator.noteManager.renameNotebook(newName, notebook);
         });
@@ -665,13 +1682,24 @@ export class NotebookListView extends AbstractView {
 
     renameNote(note: Note) {
         let view = this._notebooks.get(note.notebook).notes.get(note);
-        this._rename(view, $(editNoteHtml(note.name)), (newName: string) => {
+        this._rename(view, $(editNoteHtml(note.name, note.notebook.depth)), (newName: string) => {
             // rename note
             ServiceLocator.noteManager.renameNote(newName, note);
         });
     }
 
-    private _rename(view: INotebookView | INoteView, editEl: JQuery, cb: (newName: string) => void) {
+    renameTag(tag: string) {
+        let view = this._tags.get(tag);
+        this._rename(view, $(editTagHtml(tag)), (newTag: string) => {
+            // rename tag in all notes carrying it
+            ServiceLocator.noteManager.renameTag(tag, newTag).catch((e) => {
+                view.isRenaming = false;
+                ServiceLocator.alerter.warn(e.message);
+            });
+        });
+    }
+
+    private _rename(view: INotebookView | INoteView | ITagView, editEl: JQuery, cb: (newName: string) => void) {
         let inputEl = editEl.find('input');
         let aEl = view.el.find('> a');
         let bgEl = this._setEditBackground();
@@ -707,6 +1735,34 @@ export class NotebookListView extends AbstractView {
         return $(EDIT_BACKGROUND_HTML).prependTo(this._el);
     }
 
+    /**
+     * Move the note view into the view of its new notebook
+     */
+    moveNote(note: Note, oldNotebook: Notebook) {
+        let oldNotebookView = this._getNotebookView(oldNotebook);
+        let notebookView = this._getNotebookView(note.notebook);
+        let noteView = this._getNoteView(oldNotebookView, note);
+
+        oldNotebookView.notes.delete(note);
+        notebookView.notes.set(note, noteView);
+
+        noteView.el.detach();
+        noteView.el.find('> a').css('padding-left', NOTE_PADDING + note.notebook.depth * INDENT_WIDTH);
+
+        if (note === App.getInstance().activeNote) {
+            oldNotebookView.el.removeClass('active');
+            notebookView.el.addClass('active');
+        }
+
+        this.reorderNote(note.notebook);
+        this.expandNotebook(note.notebook);
+        this.filterByTag(this._filterTag);
+    }
+
+    moveNoteTo(note: Note) {
+        ViewManager.modal.open('move-note', note);
+    }
+
     deleteNotebook(notebook: Notebook) {
         this._notebooks.get(notebook).el.remove();
     }
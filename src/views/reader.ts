@@ -1,20 +1,61 @@
 import { AbstractView } from './view';
-import { Note, Notebook } from '../note';
+import { Note, Notebook, NOTEBOOK_PATH_SEP } from '../note';
 import { Event as NoteManagerEvent } from '../note-manager';
-import { NoteRenderer, IOutlineHeader, IRenderResult } from '../note-renderer';
+import { NoteRenderer, IOutlineHeader, IRenderResult, wikiLinkClass, wikiLinkTitle } from '../note-renderer';
 import { Event as EditorEvent } from '../editor';
+import { IWikiLink, parseWikiLink, findHeadingLine } from '../link-index';
 import ServiceLocator from '../service-locator';
+import ViewManager from '../view-manager';
 import { App } from '../app';
+import { INoteMetadata } from '../front-matter';
+import { AllHtmlEntities } from 'html-entities';
+import * as moment from 'moment';
 
 const CONTAINER_HTML = '<div></div>';
 const OUTLINE_HTML = '<div class="outline"></div>';
 
 const SHOW_OUTLINE_CLASS = 'show-outline';
 
-function noteHtml(content: string = ''): string {
+const entities = new AllHtmlEntities();
+
+export function noteHtml(content: string = ''): string {
     return `<div class="markdown-body">${content}</div>`;
 }
 
+function propertyValueHtml(name: string, value: any): string {
+    if (Array.isArray(value)) {
+        return value.map((item) => `<span class="badge">${entities.encode(String(item))}</span>`).join(' ');
+    }
+
+    if (name === 'created' || name === 'updated') {
+        let date = moment(value);
+        if (date.isValid()) {
+            return `<span title="${entities.encode(String(value))}">${date.format('YYYY-MM-DD HH:mm')}</span>`;
+        }
+    }
+
+    return entities.encode(typeof value === 'object' ? JSON.stringify(value) : String(value));
+}
+
+function propertiesHtml(metadata: INoteMetadata): string {
+    let names = Object.keys(metadata);
+    if (!names.length) {
+        return '';
+    }
+
+    let html = '<dl class="note-properties">';
+    names.forEach((name) => {
+        html += `<dt>${entities.encode(name)}</dt><dd>${propertyValueHtml(name, metadata[name])}</dd>`;
+    });
+    html += '</dl>';
+
+    return html;
+}
+
+export function renderResultHtml(renderResult: IRenderResult): string {
+    return propertiesHtml(renderResult.metadata) + renderResult.content;
+}
+
 export class ReaderView extends AbstractView {
     private _outline: OutlineView;
 
@@ -42,17 +83,50 @@ export class ReaderView extends AbstractView {
         let manager = ServiceLocator.noteManager;
         // remove note view when delete notebook/note
         manager.on(NoteManagerEvent.delete_notebook, (notebook: Notebook) => {
-            for (let note of notebook.notes.values()) {
+            for (let note of notebook.allNotes) {
                 if (this._notes.has(note)) {
                     this._notes.get(note).el.remove();
+                    // rendered again if the deletion fails and the note is opened
+                    this._notes.delete(note);
                 }
             }
         });
         manager.on(NoteManagerEvent.delete_note, (note: Note) => {
             if (this._notes.has(note)) {
                 this._notes.get(note).el.remove();
+                this._notes.delete(note);
             }
         });
+        // rerender note view when note is changed outside
+        manager.on(NoteManagerEvent.note_reloaded, (note: Note) => {
+            if (this._notes.has(note)) {
+                this.updateNote(note);
+            }
+        });
+
+        // wiki links
+        this._container.on('click', 'a.wiki-link', (event) => {
+            let noteEl = $(event.currentTarget).parents('.markdown-body').first();
+            let link = parseWikiLink($(event.currentTarget).attr('data-link'));
+
+            if (link) {
+                this.openWikiLink(link, noteEl.data('note'));
+            }
+            // stop event bubble and default action
+            return false;
+        });
+        // targets of rendered wiki links may be created, renamed or deleted
+        for (const event of [NoteManagerEvent.note_created,
+            NoteManagerEvent.note_renamed,
+            NoteManagerEvent.note_moved,
+            NoteManagerEvent.note_deleted,
+            NoteManagerEvent.notebook_renamed,
+            NoteManagerEvent.notebook_deleted
+        ]) {
+            manager.on(event, () => {
+                this._updateWikiLinks();
+            });
+        }
 
         // init outline
         this._outline.init();
@@ -68,7 +142,8 @@ export class ReaderView extends AbstractView {
         if (!this._notes.has(note)) {
             let renderResult: IRenderResult = ServiceLocator.noteRenderer.render(note);
 
-            el = $(noteHtml(renderResult.content));
+            el = $(noteHtml(renderResultHtml(renderResult)));
+            el.data('note', note);
             el.hide();
             el.appendTo(this._container);
 
@@ -103,11 +178,71 @@ export class ReaderView extends AbstractView {
         let renderResult: IRenderResult = ServiceLocator.noteRenderer.render(note);
 
         entry.codeLines = renderResult.blockCodeLines;
-        entry.el.empty().append(renderResult.content);
+        entry.el.empty().append(renderResultHtml(renderResult));
 
         this._outline.setHeaders(note, renderResult.outlineHeaders);
     }
 
+    /**
+     * Open the target note of the wiki link, the note is created if it doesn't exist
+     */
+    openWikiLink(link: IWikiLink, from: Note) {
+        let manager = ServiceLocator.noteManager;
+        let note = manager.resolveWikiLink(link, from);
+
+        if (note && note.locked) {
+            // the heading is looked up in the decrypted content, once the note is unlocked
+            ViewManager.modal.open('unlock-notes', () => {
+                this.openWikiLink(link, from);
+            });
+            return;
+        }
+
+        if (note) {
+            let line = link.heading ? findHeadingLine(note.content, link.heading) : 0;
+
+            // highlight note in notebook list before it becomes the active note
+            ViewManager.notebookList.activateNote(note);
+            App.getInstance().openNote(note, null, line);
+            return;
+        }
+
+        try {
+            let notebook = from ? from.notebook : null;
+            if (link.path.length) {
+                // create the missing notebooks of the path
+                notebook = null;
+                for (const name of link.path) {
+                    let notebooks = notebook ? notebook.notebooks : manager.notebooks;
+                    notebook = notebooks.get(name) || manager.createNotebook(name, notebook);
+                }
+            }
+
+            if (!notebook) {
+                throw new Error(`Cannot create note: ${link.name} without notebook, `
+                    + `link it as [[Notebook${NOTEBOOK_PATH_SEP}${link.name}]]`);
+            }
+            manager.createNote(link.name, notebook);
+        } catch (e) {
+            ServiceLocator.alerter.warn(e.message);
+        }
+    }
+
+    private _updateWikiLinks() {
+        let manager = ServiceLocator.noteManager;
+
+        this._container.children().each((i, noteEl) => {
+            let note: Note = $(noteEl).data('note');
+
+            $(noteEl).find('a.wiki-link').each((j, linkEl) => {
+                let link = parseWikiLink($(linkEl).attr('data-link'));
+                let resolved = !!manager.resolveWikiLink(link, note);
+
+                $(linkEl).attr('class', wikiLinkClass(resolved)).attr('title', wikiLinkTitle(link, resolved));
+            });
+        });
+    }
+
     revealLine(note: Note, targetLine: number, alignTop: boolean = true) {
         let entry = this._notes.get(note);
 
@@ -200,9 +335,17 @@ export class ReaderView extends AbstractView {
     }
 }
 
+function backlinkHtml(note: Note, index: number): string {
+    return `<a class="nav-link backlink" _data="${index}">`
+        + `${entities.encode(note.name)}<small>${entities.encode(note.notebook.path.join(NOTEBOOK_PATH_SEP))}</small></a>`;
+}
+
 class OutlineView extends AbstractView {
     private _readerView: ReaderView;
     private _headers: WeakMap<Note, IOutlineHeader[]>;
+    // note the outline is rendered for and notes linking to it
+    private _note: Note;
+    private _backlinks: Note[] = [];
 
     constructor(el: JQuery, readerView: ReaderView) {
         super(el);
@@ -212,10 +355,31 @@ class OutlineView extends AbstractView {
 
     init() {
         const app = App.getInstance();
-        this._el.on('click', 'a', event => {
+        this._el.on('click', 'a[data-line]', event => {
             let gotoLine = +$(event.currentTarget).attr('data-line');
             this._readerView.revealLine(app.activeNote, gotoLine);
         });
+
+        this._el.on('click', 'a.backlink', event => {
+            let note = this._backlinks[+$(event.currentTarget).attr('_data')];
+
+            ViewManager.notebookList.activateNote(note);
+            app.openNote(note);
+        });
+
+        // keep backlinks of the rendered outline up to date
+        let manager = ServiceLocator.noteManager;
+        for (const event of [NoteManagerEvent.links_changed,
+            NoteManagerEvent.note_renamed,
+            NoteManagerEvent.note_moved,
+            NoteManagerEvent.notebook_renamed
+        ]) {
+            manager.on(event, () => {
+                if (this._note && this._note === app.activeNote && this._headers.has(this._note)) {
+                    this.render(this._note);
+                }
+            });
+        }
     }
 
     setHeaders(note: Note, headers: IOutlineHeader[]) {
@@ -235,6 +399,15 @@ class OutlineView extends AbstractView {
         });
         html += '</nav>';
 
+        // notes linking to the note
+        this._note = note;
+        this._backlinks = note.notebook ? ServiceLocator.noteManager.getBacklinks(note) : [];
+        if (this._backlinks.length) {
+            html += '<div class="backlinks"><h6>Linked from</h6><nav class="nav flex-column">';
+            html += this._backlinks.map(backlinkHtml).join('');
+            html += '</nav></div>';
+        }
+
         this._el.empty().append(html);
     }
 }
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { AbstractView } from './view';
+import { AllHtmlEntities } from 'html-entities';
+import { App } from '../app';
+import { Event as NoteManagerEvent } from '../note-manager';
+import { ISearchResult } from '../search-index';
+import { NOTEBOOK_PATH_SEP } from '../note';
+import ServiceLocator from '../service-locator';
+import ViewManager from '../view-manager';
+import { throttle } from '../utils';
+
+const KEYCODE_ESC = 27;
+
+const SEARCHING_CLASS = 'searching';
+
+const entities = new AllHtmlEntities();
+
+function escapeRegExp(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function highlightTerms(text: string, terms: string[]): string {
+    if (!terms.length) {
+        return entities.encode(text);
+    }
+
+    // terms are matched in the raw text, so they never match inside the encoded entities,
+    // the captured matches take the odd places of the split parts
+    let reg = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    return text.split(reg).map((part, i) => {
+        return i % 2 ? `<mark>${entities.encode(part)}</mark>` : entities.encode(part);
+    }).join('');
+}
+
+function resultHtml(result: ISearchResult, index: number): string {
+    let note = result.note;
+    return `
+<li class="search-result" _data="${index}">
+    <a href="javascript:void(0)">
+        <div class="title">${highlightTerms(note.name, result.terms)}</div>
+        <div class="notebook"><i class="fa fa-book"></i> ${entities.encode(note.notebook.path.join(NOTEBOOK_PATH_SEP))}</div>
+        <div class="snippet">${highlightTerms(result.snippet, result.terms)}</div>
+    </a>
+</li>`;
+}
+
+const NO_RESULT_HTML = '<li class="no-result">No matching notes</li>';
+
+export class SearchView extends AbstractView {
+    private _inputEl: JQuery;
+    private _sidebarEl: JQuery;
+    private _resultsEl: JQuery;
+
+    private _results: ISearchResult[] = [];
+
+    constructor() {
+        super('#note-search');
+
+        this._inputEl = this._el.find('input');
+        this._sidebarEl = this._el.parents('.sidebar');
+        this._resultsEl = this._sidebarEl.find('.search-results');
+    }
+
+    init() {
+        this._inputEl.on('input', throttle(() => {
+            this.search(this._inputEl.val());
+        }, 200, this)).on('keyup', (event) => {
+            if (KEYCODE_ESC === event.keyCode) {
+                this.clear();
+            }
+        });
+
+        this._resultsEl.on('click', '.search-result', (event) => {
+            let result = this._results[+$(event.currentTarget).attr('_data')];
+            if (result) {
+                this.openResult(result);
+            }
+            // stop event bubble and default action
+            return false;
+        });
+
+        // refresh results when notes change
+        let manager = ServiceLocator.noteManager;
+        for (const event of [
+            NoteManagerEvent.note_saved,
+            NoteManagerEvent.note_created,
+            NoteManagerEvent.note_renamed,
+            NoteManagerEvent.note_deleted,
+            NoteManagerEvent.reload,
+        ]) {
+            manager.on(event, () => {
+                if (this._sidebarEl.hasClass(SEARCHING_CLASS)) {
+                    this.search(this._inputEl.val());
+                }
+            });
+        }
+    }
+
+    search(query: string) {
+        if (!query.trim()) {
+            this.clear();
+            return;
+        }
+
+        this._results = ServiceLocator.noteManager.search(query);
+        this._sidebarEl.addClass(SEARCHING_CLASS);
+        this._render();
+    }
+
+    clear() {
+        this._results = [];
+        this._inputEl.val('');
+        this._resultsEl.empty();
+        this._sidebarEl.removeClass(SEARCHING_CLASS);
+    }
+
+    openResult(result: ISearchResult) {
+        let note = result.note;
+
+        // highlight note in notebook list before it becomes the active note
+        ViewManager.notebookList.activateNote(note);
+        App.getInstance().openNote(note, null, result.line);
+    }
+
+    private _render() {
+        let html = this._results.length
+            ? this._results.map((result, i) => resultHtml(result, i)).join('')
+            : NO_RESULT_HTML;
+
+        this._resultsEl.empty().append(html);
+    }
+}
@@ -11,6 +11,13 @@ import { GitUsernameSetting } from './settings/git-username';
 import { GitUserEmailSetting } from './settings/git-user-email';
 import { GitRemoteSetting } from './settings/git-remote';
 import { GitRemoteAuthSetting } from './settings/git-remote-auth';
+import { TrashPurgeDaysSetting } from './settings/trash-purge-days';
+import { EncryptionIdleMinutesSetting } from './settings/encryption-idle-minutes';
+import { AutosaveModeSetting } from './settings/autosave-mode';
+import { AutosaveDelaySetting } from './settings/autosave-delay';
+import { JournalNotebookSetting } from './settings/journal-notebook';
+import { JournalNamePatternSetting } from './settings/journal-name-pattern';
+import { JournalTemplateSetting } from './settings/journal-template';
 
 const FADE_IN_CLASS = 'fadeInRight';
 const FADE_OUT_CLASS = 'fadeOutRight';
@@ -19,10 +26,17 @@ const settings = [
     NoteDirSetting,
     DebugSetting,
     EditorKeybindingSetting,
+    AutosaveModeSetting,
+    AutosaveDelaySetting,
+    JournalNotebookSetting,
+    JournalNamePatternSetting,
+    JournalTemplateSetting,
     GitUsernameSetting,
     GitUserEmailSetting,
     GitRemoteSetting,
     GitRemoteAuthSetting,
+    TrashPurgeDaysSetting,
+    EncryptionIdleMinutesSetting,
 ];
 
 export class SettingsView extends AbstractView {
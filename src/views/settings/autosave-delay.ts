@@ -0,0 +1,18 @@
+import Setting from './setting';
+import ServiceLocator from '../../service-locator';
+
+const MIN_DELAY = 100;
+
+export class AutosaveDelaySetting extends Setting {
+    init() {
+        this._name = 'autosave.delay';
+        this.el.find('input').val(ServiceLocator.config.autosave.delay);
+    }
+
+    registerHandler() {
+        this.el.find('input').change((event) => {
+            let delay = parseInt($(event.target).val(), 10);
+            ServiceLocator.config.autosave.delay = delay > MIN_DELAY ? delay : MIN_DELAY;
+        });
+    }
+}
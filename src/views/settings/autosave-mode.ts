@@ -0,0 +1,15 @@
+import Setting from './setting';
+import ServiceLocator from '../../service-locator';
+
+export class AutosaveModeSetting extends Setting {
+    init() {
+        this._name = 'autosave.mode';
+        this.el.find('select').val(ServiceLocator.config.autosave.mode);
+    }
+
+    registerHandler() {
+        this.el.find('select').change((event) => {
+            ServiceLocator.config.autosave.mode = $(event.target).val();
+        });
+    }
+}
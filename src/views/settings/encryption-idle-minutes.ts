@@ -0,0 +1,16 @@
+import Setting from './setting';
+import ServiceLocator from '../../service-locator';
+
+export class EncryptionIdleMinutesSetting extends Setting {
+    init() {
+        this._name = 'encryption.idleMinutes';
+        this.el.find('input').val(ServiceLocator.config.encryption.idleMinutes);
+    }
+
+    registerHandler() {
+        this.el.find('input').change((event) => {
+            let minutes = parseInt($(event.target).val(), 10);
+            ServiceLocator.config.encryption.idleMinutes = minutes > 0 ? minutes : 0;
+        });
+    }
+}
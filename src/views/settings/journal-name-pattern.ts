@@ -0,0 +1,18 @@
+import Setting from './setting';
+import ServiceLocator from '../../service-locator';
+
+export class JournalNamePatternSetting extends Setting {
+    init() {
+        this._name = 'journal.namePattern';
+        this.el.find('input').val(ServiceLocator.config.journal.namePattern);
+    }
+
+    registerHandler() {
+        this.el.find('input').change((event) => {
+            let pattern = $(event.target).val().trim();
+            if (pattern) {
+                ServiceLocator.config.journal.namePattern = pattern;
+            }
+        });
+    }
+}
@@ -0,0 +1,18 @@
+import Setting from './setting';
+import ServiceLocator from '../../service-locator';
+
+export class JournalNotebookSetting extends Setting {
+    init() {
+        this._name = 'journal.notebook';
+        this.el.find('input').val(ServiceLocator.config.journal.notebook);
+    }
+
+    registerHandler() {
+        this.el.find('input').change((event) => {
+            let path = $(event.target).val().trim();
+            if (path) {
+                ServiceLocator.config.journal.notebook = path;
+            }
+        });
+    }
+}
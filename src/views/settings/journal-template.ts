@@ -0,0 +1,33 @@
+import Setting from './setting';
+import ServiceLocator from '../../service-locator';
+import { AllHtmlEntities } from 'html-entities';
+
+const entities = new AllHtmlEntities();
+
+export class JournalTemplateSetting extends Setting {
+    init() {
+        this._name = 'journal.template';
+
+        let selectEl = this.el.find('select');
+        let template = ServiceLocator.config.journal.template;
+
+        ServiceLocator.noteManager.getTemplates().then((templates: string[]) => {
+            // keep the configured template even if its file is gone
+            if (template && templates.indexOf(template) === -1) {
+                templates.push(template);
+            }
+            selectEl.append(templates.map((name) => {
+                return `<option value="${entities.encode(name)}">${entities.encode(name)}</option>`;
+            }).join(''));
+            selectEl.val(template);
+        }).catch((e) => {
+            ServiceLocator.logger.error(e);
+        });
+    }
+
+    registerHandler() {
+        this.el.find('select').change((event) => {
+            ServiceLocator.config.journal.template = $(event.target).val();
+        });
+    }
+}
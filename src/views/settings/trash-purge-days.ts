@@ -0,0 +1,16 @@
+import Setting from './setting';
+import ServiceLocator from '../../service-locator';
+
+export class TrashPurgeDaysSetting extends Setting {
+    init() {
+        this._name = 'trash.purgeDays';
+        this.el.find('input').val(ServiceLocator.config.trash.purgeDays);
+    }
+
+    registerHandler() {
+        this.el.find('input').change((event) => {
+            let days = parseInt($(event.target).val(), 10);
+            ServiceLocator.config.trash.purgeDays = days > 0 ? days : 0;
+        });
+    }
+}